@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+// Fail when the generated scrippets.d.ts no longer matches the plugin's own types.
+//
+// The declarations are built from src/type-definitions.ts and type-checked, without being written
+// anywhere, together with assertions that each declared shape equals its counterpart in src/.
+import { build } from "esbuild";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import ts from "typescript";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const DECLARATIONS_FILE = join(root, "scrippets.d.ts");
+const CHECK_FILE = join(root, "type-definitions.check.ts");
+
+// [declared name, source module, exported name, relation]. "given" shapes are handed to scrippets, so
+// the real value only has to fit the declaration, which leaves out fields scrippets never see; "taken"
+// shapes come from scrippets, so whatever fits the declaration has to be accepted by the plugin.
+const CHECKS = [
+  ["ScrippetTrigger", "./src/types", "ScrippetTrigger", "same"],
+  ["ScrippetMenuTarget", "./src/types", "ScrippetMenuTarget", "same"],
+  ["ScrippetEventName", "./src/types", "ScrippetEventName", "same"],
+  ["ScrippetFieldDefinition", "./src/types", "ScrippetFieldDefinition", "same"],
+  ["ScrippetMetadata", "./src/types", "ScrippetMetadata", "given"],
+  ["ScrippetDescriptor", "./src/types", "ScrippetDescriptor", "given"],
+  ["ScrippetEventPayload", "./src/types", "ScrippetEventPayload", "same"],
+  ["ScrippetMenuPayload", "./src/types", "ScrippetMenuPayload", "same"],
+  ["ScrippetStorage", "./src/storage", "ScrippetStorage", "same"],
+  ["ScrippetInvocationContext", "./src/types", "ScrippetInvocationContext", "given"],
+  ["ScrippetLifecycleContext", "./src/types", "ScrippetLifecycleContext", "given"],
+  ["ScrippetModuleCommand", "./src/types", "ScrippetModuleCommand", "taken"],
+  ["ScrippetModule", "./src/types", "ScrippetModule", "taken"],
+  ["ScrippetProgress", "./src/helpers", "ScrippetProgress", "same"],
+  ["ScrippetHelpers", "./src/helpers", "ScrippetHelpers", "same"],
+  ["typeof require", "./src/scrippet-loader", "ScrippetRequire", "same"],
+];
+
+async function buildDeclarations() {
+  const result = await build({
+    entryPoints: [join(root, "src/type-definitions.ts")],
+    bundle: true,
+    write: false,
+    format: "esm",
+    platform: "node",
+    logLevel: "silent",
+    plugins: [
+      {
+        name: "obsidian-stub",
+        setup(pluginBuild) {
+          pluginBuild.onResolve({ filter: /^obsidian$/ }, () => ({
+            path: "obsidian",
+            namespace: "stub",
+          }));
+          pluginBuild.onLoad({ filter: /.*/, namespace: "stub" }, () => ({
+            contents: "export const normalizePath = (path) => path;",
+          }));
+        },
+      },
+    ],
+  });
+  const code = Buffer.from(result.outputFiles[0].contents).toString("base64");
+  const { buildTypeDefinitions } = await import(`data:text/javascript;base64,${code}`);
+  return buildTypeDefinitions("check");
+}
+
+function buildCheckSource() {
+  const modules = [...new Set(CHECKS.map(([, module]) => module))];
+  const alias = (module) => `M${modules.indexOf(module)}`;
+  const lines = [
+    ...modules.map((module) => `import type * as ${alias(module)} from "${module}";`),
+    // Identity rather than mutual assignability, so an \`any\` on either side is caught.
+    "type Same<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;",
+    "type Fits<A, B> = [A] extends [B] ? true : false;",
+    "type Expect<T extends true> = T;",
+    "export type Checks = [",
+    ...CHECKS.map(([declared, module, name, relation]) => {
+      const real = `${alias(module)}.${name}`;
+      if (relation === "given") return `  Expect<Fits<${real}, ${declared}>>,`;
+      if (relation === "taken") return `  Expect<Fits<${declared}, ${real}>>,`;
+      return `  Expect<Same<${declared}, ${real}>>,`;
+    }),
+    "];",
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+const virtualFiles = new Map([
+  [DECLARATIONS_FILE, await buildDeclarations()],
+  [CHECK_FILE, buildCheckSource()],
+]);
+
+const config = ts.getParsedCommandLineOfConfigFile(
+  join(root, "tsconfig.json"),
+  {},
+  {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: () => {},
+  },
+);
+// Node's types declare a conflicting global `require`; scrippets only get the one declared here.
+const options = { ...config.options, types: [], noEmit: true };
+const host = ts.createCompilerHost(options);
+const { fileExists, readFile, getSourceFile } = host;
+host.fileExists = (file) => virtualFiles.has(file) || fileExists.call(host, file);
+host.readFile = (file) => virtualFiles.get(file) ?? readFile.call(host, file);
+host.getSourceFile = (file, languageVersion, ...rest) =>
+  virtualFiles.has(file)
+    ? ts.createSourceFile(file, virtualFiles.get(file), languageVersion, true)
+    : getSourceFile.call(host, file, languageVersion, ...rest);
+
+const program = ts.createProgram([DECLARATIONS_FILE, CHECK_FILE], options, host);
+const diagnostics = ts
+  .getPreEmitDiagnostics(program)
+  .filter((diagnostic) => diagnostic.file && virtualFiles.has(diagnostic.file.fileName));
+if (diagnostics.length > 0) {
+  for (const diagnostic of diagnostics) {
+    const { line } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start ?? 0);
+    const text = diagnostic.file.text.split("\n")[line].trim();
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+    console.error(
+      `${diagnostic.file.fileName.slice(root.length + 1)}:${line + 1}: ${text}\n  ${message}`,
+    );
+  }
+  console.error(
+    "\nUpdate buildTypeDefinitions in src/type-definitions.ts to match the types in src/.",
+  );
+  process.exit(1);
+}
+console.log("scrippets.d.ts matches the plugin's types.");
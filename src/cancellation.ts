@@ -0,0 +1,31 @@
+export type AbortReason = "cancelled" | "timeout";
+
+/** Raised inside a run when it is cancelled by the user or exceeds its `@timeout`. */
+export class ScrippetAbortError extends Error {
+  readonly reason: AbortReason;
+
+  constructor(reason: AbortReason, message: string) {
+    super(message);
+    this.name = "ScrippetAbortError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Settle with the task, or reject as soon as the signal aborts. The task itself keeps running;
+ * scrippets that do long work should watch `ctx.signal` and stop on their own.
+ */
+export function raceAbort<T>(task: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(toAbortError(signal));
+  let onAbort: () => void = () => undefined;
+  const aborted = new Promise<never>((_resolve, reject) => {
+    onAbort = () => reject(toAbortError(signal));
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+  return Promise.race([task, aborted]).finally(() => signal.removeEventListener("abort", onAbort));
+}
+
+function toAbortError(signal: AbortSignal): ScrippetAbortError {
+  const reason: unknown = signal.reason;
+  return reason instanceof ScrippetAbortError ? reason : new ScrippetAbortError("cancelled", "Run cancelled");
+}
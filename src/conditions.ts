@@ -0,0 +1,26 @@
+import { MarkdownView } from "obsidian";
+import type { App } from "obsidian";
+import type { ScrippetCondition } from "./types";
+
+const FILE_EXT_PREFIX = "file-ext:";
+
+export function isScrippetCondition(value: string): value is ScrippetCondition {
+  if (value === "markdown-view" || value === "has-selection") return true;
+  return value.startsWith(FILE_EXT_PREFIX) && value.length > FILE_EXT_PREFIX.length;
+}
+
+/** True when there are no alternatives or every condition of at least one of them holds. */
+export function matchesConditions(app: App, alternatives: ScrippetCondition[][]): boolean {
+  if (alternatives.length === 0) return true;
+  return alternatives.some((conditions) => conditions.every((condition) => matchesCondition(app, condition)));
+}
+
+function matchesCondition(app: App, condition: ScrippetCondition): boolean {
+  const view = app.workspace.getActiveViewOfType(MarkdownView);
+  if (condition === "markdown-view") return view != null;
+  if (condition === "has-selection") return view?.editor.somethingSelected() ?? false;
+  const file = app.workspace.getActiveFile();
+  if (!file) return false;
+  const extensions = condition.slice(FILE_EXT_PREFIX.length).split("/");
+  return extensions.includes(file.extension.toLowerCase());
+}
@@ -0,0 +1,73 @@
+import { MarkdownView, TFile, TFolder } from "obsidian";
+import type { App, Editor, EventRef, Menu, TAbstractFile } from "obsidian";
+import type { ScrippetDescriptor, ScrippetMenuPayload, ScrippetMenuTarget } from "./types";
+
+const MENU_TARGETS: readonly ScrippetMenuTarget[] = ["file", "folder", "editor", "files"];
+const DEFAULT_MENU_ICON = "scroll";
+
+export function toMenuTarget(value: string): ScrippetMenuTarget | null {
+  const normalized = value.trim().toLowerCase();
+  return (MENU_TARGETS as readonly string[]).includes(normalized) ? (normalized as ScrippetMenuTarget) : null;
+}
+
+export type MenuHandler = (payload: ScrippetMenuPayload, editor?: Editor, view?: MarkdownView | null) => void;
+
+/**
+ * Add a scrippet's entry to the context menus named in its `@menu`, skipping files whose extension
+ * is not listed in `@menu-ext`. The handler receives what was clicked.
+ */
+export function subscribeToMenus(app: App, descriptor: ScrippetDescriptor, handler: MenuHandler): EventRef[] {
+  const { workspace } = app;
+  const { menu: targets = [], menuExtensions, icon } = descriptor.metadata;
+  const matches = (file: TAbstractFile) =>
+    !menuExtensions || (file instanceof TFile && menuExtensions.includes(file.extension.toLowerCase()));
+  const addItem = (menu: Menu, onClick: () => void) =>
+    menu.addItem((item) =>
+      item
+        .setTitle(descriptor.name)
+        .setIcon(icon ?? DEFAULT_MENU_ICON)
+        .onClick(onClick),
+    );
+
+  const refs: EventRef[] = [];
+  for (const target of targets) {
+    switch (target) {
+      case "file":
+        refs.push(
+          workspace.on("file-menu", (menu, file) => {
+            if (!(file instanceof TFile) || !matches(file)) return;
+            addItem(menu, () => handler({ target, files: [file] }));
+          }),
+        );
+        break;
+      case "folder":
+        refs.push(
+          workspace.on("file-menu", (menu, file) => {
+            if (!(file instanceof TFolder)) return;
+            addItem(menu, () => handler({ target, files: [file] }));
+          }),
+        );
+        break;
+      case "files":
+        refs.push(
+          workspace.on("files-menu", (menu, files) => {
+            const selected = files.filter(matches);
+            if (selected.length === 0) return;
+            addItem(menu, () => handler({ target, files: selected }));
+          }),
+        );
+        break;
+      case "editor":
+        refs.push(
+          workspace.on("editor-menu", (menu, editor, info) => {
+            const { file } = info;
+            if (menuExtensions && !(file && matches(file))) return;
+            const view = info instanceof MarkdownView ? info : null;
+            addItem(menu, () => handler({ target, files: file ? [file] : [] }, editor, view));
+          }),
+        );
+        break;
+    }
+  }
+  return refs;
+}
@@ -0,0 +1,45 @@
+const UNIT_MS: Record<string, number> = {
+  "": 1,
+  ms: 1,
+  s: 1000,
+  sec: 1000,
+  secs: 1000,
+  second: 1000,
+  seconds: 1000,
+  m: 60_000,
+  min: 60_000,
+  mins: 60_000,
+  minute: 60_000,
+  minutes: 60_000,
+  h: 3_600_000,
+  hr: 3_600_000,
+  hrs: 3_600_000,
+  hour: 3_600_000,
+  hours: 3_600_000,
+  d: 86_400_000,
+  day: 86_400_000,
+  days: 86_400_000,
+};
+
+const DURATION = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i;
+
+/**
+ * Parse "500ms", "30s", "5m", "1h", or "2d" (or spelled out, as in "30 minutes") into
+ * milliseconds. Bare numbers are milliseconds.
+ */
+export function parseDuration(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== "string") return null;
+  const match = DURATION.exec(value.trim());
+  if (!match) return null;
+  const factor = UNIT_MS[match[2].toLowerCase()];
+  if (factor === undefined) return null;
+  return Math.round(Number(match[1]) * factor);
+}
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(ms < 10_000 ? 1 : 0)}s`;
+  if (ms < 3_600_000) return `${Math.round(ms / 60_000)}m`;
+  return `${(ms / 3_600_000).toFixed(1)}h`;
+}
@@ -0,0 +1,39 @@
+import { transform } from "sucrase";
+
+/**
+ * ES module syntax rewritten into the CommonJS shape the loader evaluates.
+ *
+ * Sucrase's `imports` transform works on tokens, so `import`/`export` text inside strings, template
+ * literals and comments is left alone, and it keeps every statement on its original line so stack
+ * traces and the run history still match the file. Exports are assigned to `exports`, marked with
+ * `__esModule` so the loader and `require` can unwrap default exports.
+ */
+export interface CommonJsSource {
+  code: string;
+  /**
+   * Whether the source has `export` statements. Modules declare their own top-level bindings
+   * (`export function invoke`), so they must not get the globals plain scripts assign to.
+   */
+  isModule: boolean;
+}
+
+/** Cheap pre-check so sources that cannot contain module syntax skip the parse entirely. */
+const MODULE_KEYWORD = /\b(?:import|export)\b/;
+const USE_STRICT = `"use strict";`;
+const ES_MODULE_HEADER = `${USE_STRICT}Object.defineProperty(exports, "__esModule", {value: true});`;
+
+/**
+ * Convert static `import`/`export` statements. Dynamic `import()` is kept as written, and sources
+ * without static module syntax (where the transform would only prepend "use strict") are returned
+ * untouched.
+ */
+export function toCommonJs(source: string): CommonJsSource {
+  if (!MODULE_KEYWORD.test(source)) return { code: source, isModule: false };
+  const { code } = transform(source, {
+    transforms: ["imports"],
+    disableESTransforms: true,
+    preserveDynamicImport: true,
+  });
+  if (code === `${USE_STRICT}${source}`) return { code: source, isModule: false };
+  return { code, isModule: code.startsWith(ES_MODULE_HEADER) };
+}
@@ -0,0 +1,67 @@
+import type { App, EventRef, TAbstractFile } from "obsidian";
+import { matchesGlob } from "./glob";
+import type { ScrippetEventName, ScrippetEventPayload, ScrippetEventTrigger } from "./types";
+
+const EVENT_NAMES: readonly ScrippetEventName[] = [
+  "file-open",
+  "active-leaf-change",
+  "layout-change",
+  "editor-change",
+  "vault-create",
+  "vault-modify",
+  "vault-delete",
+  "vault-rename",
+];
+
+const EVENT_ALIASES: Record<string, ScrippetEventName> = {
+  "file-create": "vault-create",
+  "file-modify": "vault-modify",
+  "file-delete": "vault-delete",
+  "file-rename": "vault-rename",
+};
+
+export function toEventName(value: string): ScrippetEventName | null {
+  const normalized = value.trim().toLowerCase();
+  if ((EVENT_NAMES as readonly string[]).includes(normalized)) return normalized as ScrippetEventName;
+  return EVENT_ALIASES[normalized] ?? null;
+}
+
+export function describeEventTrigger(trigger: ScrippetEventTrigger): string {
+  return trigger.glob ? `${trigger.event} (${trigger.glob})` : trigger.event;
+}
+
+/** Subscribe to the workspace or vault event behind a trigger; the handler only sees matching paths. */
+export function subscribeToEvent(
+  app: App,
+  trigger: ScrippetEventTrigger,
+  handler: (payload: ScrippetEventPayload) => void,
+): EventRef {
+  const { workspace, vault } = app;
+  const emit = (file: TAbstractFile | null, oldPath?: string) => {
+    if (trigger.glob && !(file && matchesGlob(file.path, trigger.glob))) return;
+    handler({ name: trigger.event, file, oldPath });
+  };
+  // The vault replays "create" for every file while it loads; only react once the layout is ready.
+  const emitVault = (file: TAbstractFile, oldPath?: string) => {
+    if (workspace.layoutReady) emit(file, oldPath);
+  };
+
+  switch (trigger.event) {
+    case "file-open":
+      return workspace.on("file-open", (file) => emit(file));
+    case "active-leaf-change":
+      return workspace.on("active-leaf-change", () => emit(workspace.getActiveFile()));
+    case "layout-change":
+      return workspace.on("layout-change", () => emit(workspace.getActiveFile()));
+    case "editor-change":
+      return workspace.on("editor-change", (_editor, info) => emit(info.file));
+    case "vault-create":
+      return vault.on("create", (file) => emitVault(file));
+    case "vault-modify":
+      return vault.on("modify", (file) => emitVault(file));
+    case "vault-delete":
+      return vault.on("delete", (file) => emitVault(file));
+    case "vault-rename":
+      return vault.on("rename", (file, oldPath) => emitVault(file, oldPath));
+  }
+}
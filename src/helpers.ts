@@ -0,0 +1,131 @@
+import { MarkdownView, Notice, TFile, TFolder, normalizePath, type App } from "obsidian";
+import { pickItem } from "./ui/pick-modal";
+import { promptForText, type TextPromptOptions } from "./ui/text-prompt-modal";
+
+/**
+ * Version of the `scrippets` helper API. Bumped when helpers are added; existing helpers keep
+ * their signatures and behaviour so scrippets written against an older version keep working.
+ */
+export const HELPERS_VERSION = 1;
+
+export interface PickOptions<T> {
+  placeholder?: string;
+  /** Text shown and matched for each item; defaults to `String(item)`. */
+  getText?: (item: T) => string;
+}
+
+export interface PickFileOptions {
+  placeholder?: string;
+  /** Only offer files with these extensions, without the dot (for example `["md"]`). */
+  extensions?: string[];
+}
+
+export interface ScrippetProgress {
+  /** Report progress; `value` counts towards the `total` given to `progress()`. */
+  update(value: number, message?: string): void;
+  /** Hide the progress notice, optionally replacing it with a short final message. */
+  done(message?: string): void;
+}
+
+/** Stable helpers injected into every scrippet as the `scrippets` global. */
+export interface ScrippetHelpers {
+  readonly version: number;
+  /** Read a note by vault path; `.md` is added when the path has no extension. */
+  readNote(path: string): Promise<string>;
+  /** Create or overwrite a note by vault path, creating missing parent folders. */
+  writeNote(path: string, content: string): Promise<TFile>;
+  /** Change a note's frontmatter in place; `update` mutates the parsed object. */
+  updateFrontmatter(path: string, update: (frontmatter: Record<string, unknown>) => void): Promise<void>;
+  /** Replace the selection in the active editor; returns false when no note is being edited. */
+  insertAtCursor(text: string): boolean;
+  /** Ask for a line of text; resolves to null when dismissed. */
+  prompt(message: string, options?: TextPromptOptions): Promise<string | null>;
+  /** Fuzzy-pick one of `items`; resolves to null when dismissed. */
+  suggest<T>(items: T[], options?: PickOptions<T>): Promise<T | null>;
+  pickFile(options?: PickFileOptions): Promise<TFile | null>;
+  pickFolder(options?: { placeholder?: string }): Promise<TFolder | null>;
+  /** Show a persistent notice with a progress bar until `done()` is called. */
+  progress(title: string, total?: number): ScrippetProgress;
+}
+
+export function createScrippetHelpers(app: App): ScrippetHelpers {
+  const getFile = (path: string): TFile => {
+    const file = app.vault.getAbstractFileByPath(toNotePath(path));
+    if (!(file instanceof TFile)) throw new Error(`Note not found: ${path}`);
+    return file;
+  };
+
+  const helpers: ScrippetHelpers = {
+    version: HELPERS_VERSION,
+
+    readNote: (path) => app.vault.read(getFile(path)),
+
+    async writeNote(path, content) {
+      const target = toNotePath(path);
+      const existing = app.vault.getAbstractFileByPath(target);
+      if (existing instanceof TFile) {
+        await app.vault.modify(existing, content);
+        return existing;
+      }
+      const parent = target.includes("/") ? target.slice(0, target.lastIndexOf("/")) : "";
+      if (parent && !app.vault.getAbstractFileByPath(parent)) await app.vault.createFolder(parent);
+      return app.vault.create(target, content);
+    },
+
+    updateFrontmatter: (path, update) => app.fileManager.processFrontMatter(getFile(path), update),
+
+    insertAtCursor(text) {
+      const editor = app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+      if (!editor) return false;
+      editor.replaceSelection(text);
+      return true;
+    },
+
+    prompt: (message, options) => promptForText(app, message, options),
+
+    suggest: (items, options = {}) =>
+      pickItem(app, items, options.getText ?? ((item) => String(item)), options.placeholder),
+
+    pickFile(options = {}) {
+      const extensions = options.extensions?.map((ext) => ext.replace(/^\./, "").toLowerCase());
+      const files = app.vault
+        .getFiles()
+        .filter((file) => !extensions || extensions.includes(file.extension.toLowerCase()))
+        .sort((a, b) => a.path.localeCompare(b.path));
+      return pickItem(app, files, (file) => file.path, options.placeholder ?? "Pick a file");
+    },
+
+    pickFolder(options = {}) {
+      const folders = app.vault
+        .getAllLoadedFiles()
+        .filter((file): file is TFolder => file instanceof TFolder)
+        .sort((a, b) => a.path.localeCompare(b.path));
+      return pickItem(app, folders, (folder) => folder.path || "/", options.placeholder ?? "Pick a folder");
+    },
+
+    progress(title, total) {
+      const fragment = createFragment((root) => root.createDiv({ text: title }));
+      const message = fragment.createDiv({ cls: "scrippet-progress-message" });
+      const bar = fragment.createEl("progress", { cls: "scrippet-progress-bar" });
+      if (total != null) bar.max = total;
+      const notice = new Notice(fragment, 0);
+      return {
+        update(value, text) {
+          bar.value = value;
+          if (text != null) message.setText(text);
+        },
+        done(text) {
+          notice.hide();
+          if (text) new Notice(text);
+        },
+      };
+    },
+  };
+  return Object.freeze(helpers);
+}
+
+function toNotePath(path: string): string {
+  const normalized = normalizePath(path);
+  const name = normalized.slice(normalized.lastIndexOf("/") + 1);
+  return name.includes(".") ? normalized : `${normalized}.md`;
+}
@@ -0,0 +1,149 @@
+import { Platform, type App, type Hotkey, type Modifier } from "obsidian";
+
+const MODIFIERS: Record<string, Modifier> = {
+  mod: "Mod",
+  ctrl: "Ctrl",
+  control: "Ctrl",
+  meta: "Meta",
+  cmd: "Meta",
+  command: "Meta",
+  win: "Meta",
+  shift: "Shift",
+  alt: "Alt",
+  opt: "Alt",
+  option: "Alt",
+};
+
+const MODIFIER_ORDER: readonly Modifier[] = ["Mod", "Ctrl", "Meta", "Alt", "Shift"];
+
+const KEY_NAMES: Record<string, string> = {
+  up: "ArrowUp",
+  down: "ArrowDown",
+  left: "ArrowLeft",
+  right: "ArrowRight",
+  enter: "Enter",
+  return: "Enter",
+  esc: "Escape",
+  escape: "Escape",
+  tab: "Tab",
+  space: " ",
+  backspace: "Backspace",
+  delete: "Delete",
+  del: "Delete",
+  home: "Home",
+  end: "End",
+  pageup: "PageUp",
+  pagedown: "PageDown",
+};
+
+/** Internal shape of `app.hotkeyManager`; not part of the public API. */
+interface HotkeyManager {
+  customKeys: Record<string, Hotkey[]>;
+  defaultKeys: Record<string, Hotkey[]>;
+  bake?: () => void;
+  save?: () => unknown;
+}
+
+interface CommandRegistry {
+  commands: Record<string, { name: string } | undefined>;
+}
+
+export interface HotkeyClash {
+  hotkey: Hotkey;
+  commandId: string;
+  /** Palette name of the other command, or its id when it is not registered. */
+  commandName: string;
+}
+
+/**
+ * Parse `@hotkey` values such as `Mod+Shift+K` or `Alt+Up`. A list or a comma-separated string
+ * declares several; `Mod+,` still binds the comma key.
+ */
+export function parseHotkeys(value: unknown): Hotkey[] {
+  const entries: unknown[] = Array.isArray(value) ? value : typeof value === "string" ? value.split(/(?<!\+),/) : [];
+  const hotkeys: Hotkey[] = [];
+  for (const entry of entries) {
+    if (typeof entry !== "string" || !entry.trim()) continue;
+    const hotkey = parseHotkey(entry);
+    if (hotkey) hotkeys.push(hotkey);
+    else console.warn(`Scrippets: ignoring invalid @hotkey "${entry.trim()}"`);
+  }
+  return hotkeys;
+}
+
+export function parseHotkey(value: string): Hotkey | null {
+  const parts = value.trim().split(/\+(?!$)/);
+  const rawKey = parts.pop()?.trim();
+  if (!rawKey) return null;
+  const modifiers = new Set<Modifier>();
+  for (const part of parts) {
+    const modifier = MODIFIERS[part.trim().toLowerCase()];
+    if (!modifier) return null;
+    modifiers.add(modifier);
+  }
+  const key = rawKey.length === 1 ? rawKey.toUpperCase() : normalizeKeyName(rawKey);
+  return { modifiers: MODIFIER_ORDER.filter((modifier) => modifiers.has(modifier)), key };
+}
+
+export function formatHotkey(hotkey: Hotkey): string {
+  const key = hotkey.key === " " ? "Space" : hotkey.key;
+  return [...hotkey.modifiers, key].join("+");
+}
+
+/**
+ * Commands whose effective hotkeys (customised, or their defaults) share one of `hotkeys`.
+ * Nothing is reported once the user has customised `commandId` itself, since its defaults no
+ * longer apply.
+ */
+export function findHotkeyClashes(app: App, commandId: string, hotkeys: Hotkey[]): HotkeyClash[] {
+  const hotkeyManager = getHotkeyManager(app);
+  const { commands } = app as App & { commands?: CommandRegistry };
+  if (!hotkeyManager || hotkeys.length === 0 || hotkeyManager.customKeys[commandId]) return [];
+  const wanted = new Map(hotkeys.map((hotkey) => [toSignature(hotkey), hotkey]));
+  const ids = new Set([...Object.keys(hotkeyManager.defaultKeys), ...Object.keys(hotkeyManager.customKeys)]);
+  const clashes: HotkeyClash[] = [];
+  for (const id of ids) {
+    if (id === commandId) continue;
+    const effective = hotkeyManager.customKeys[id] ?? hotkeyManager.defaultKeys[id] ?? [];
+    for (const other of effective) {
+      const hotkey = wanted.get(toSignature(other));
+      if (hotkey) clashes.push({ hotkey, commandId: id, commandName: commands?.commands[id]?.name ?? id });
+    }
+  }
+  return clashes;
+}
+
+/** Move the user's custom hotkeys to a command's new id; resolves to whether there were any. */
+export async function moveCustomHotkeys(app: App, fromId: string, toId: string): Promise<boolean> {
+  const hotkeyManager = getHotkeyManager(app);
+  const custom = hotkeyManager?.customKeys[fromId];
+  if (!hotkeyManager || !custom || fromId === toId) return false;
+  hotkeyManager.customKeys[toId] = custom;
+  delete hotkeyManager.customKeys[fromId];
+  hotkeyManager.bake?.();
+  try {
+    await hotkeyManager.save?.();
+  } catch (error) {
+    console.error("Scrippets: failed to save moved hotkeys", error);
+  }
+  return true;
+}
+
+function getHotkeyManager(app: App): HotkeyManager | undefined {
+  return (app as App & { hotkeyManager?: HotkeyManager }).hotkeyManager;
+}
+
+/** Comparable form of a hotkey, with `Mod` resolved to this platform's modifier. */
+function toSignature(hotkey: Hotkey): string {
+  const platformMod: Modifier = Platform.isMacOS ? "Meta" : "Ctrl";
+  const resolved = new Set<Modifier>(hotkey.modifiers.map((modifier) => (modifier === "Mod" ? platformMod : modifier)));
+  const modifiers = MODIFIER_ORDER.filter((modifier) => resolved.has(modifier));
+  return [...modifiers, hotkey.key.toLowerCase()].join("+");
+}
+
+function normalizeKeyName(key: string): string {
+  const named = KEY_NAMES[key.toLowerCase()];
+  if (named) return named;
+  if (/^f\d{1,2}$/i.test(key)) return key.toUpperCase();
+  return key.charAt(0).toUpperCase() + key.slice(1);
+}
@@ -0,0 +1,36 @@
+import { MarkdownView } from "obsidian";
+import type { Plugin } from "obsidian";
+import type { ScrippetStorage } from "./storage";
+import type { ScrippetDescriptor, ScrippetInvocationContext, ScrippetRunOptions } from "./types";
+
+/** Per-scrippet state the manager hands to each run. */
+export interface ScrippetState {
+  storage: ScrippetStorage;
+  settings: Record<string, unknown>;
+}
+
+export function createInvocationContext(
+  plugin: Plugin,
+  descriptor: ScrippetDescriptor,
+  state: ScrippetState,
+  options: ScrippetRunOptions = {},
+): ScrippetInvocationContext {
+  const { workspace } = plugin.app;
+  const view = options.view ?? workspace.getActiveViewOfType(MarkdownView);
+  const editor = options.editor ?? view?.editor ?? null;
+  return {
+    plugin,
+    app: plugin.app,
+    descriptor,
+    trigger: options.trigger ?? "command",
+    file: view?.file ?? workspace.getActiveFile(),
+    view,
+    editor,
+    selection: editor?.getSelection() ?? "",
+    args: { ...(options.args ?? {}) },
+    event: options.event,
+    menu: options.menu,
+    signal: options.signal ?? new AbortController().signal,
+    ...state,
+  };
+}
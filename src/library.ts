@@ -0,0 +1,165 @@
+import { normalizePath, type DataAdapter, type Plugin } from "obsidian";
+import { toCommonJs } from "./esm";
+import { appendSourceUrl, evaluateModule, type LoadScrippetOptions, type ScrippetRequire } from "./scrippet-loader";
+
+/** Sub-folder of the scrippet folder holding shared modules that are never registered as scrippets. */
+export const LIBRARY_FOLDER = "lib";
+
+const REQUIRE_CALL = /\brequire\s*\(\s*(["'`])([^"'`\n]+)\1\s*\)/g;
+
+/**
+ * Resolves `require()` calls between scrippets and library modules.
+ *
+ * Requires must be synchronous while vault reads are not, so `preload` reads every file a source
+ * requires (found by scanning for string-literal `require` calls and `import` statements) before
+ * it is evaluated. Module
+ * sources and the dependency graph are shared; evaluated modules are cached per requiring
+ * scrippet so each scrippet gets its own copy of library state and console.
+ */
+export class ScrippetLibrary {
+  private sources = new Map<string, string>();
+  private resolutions = new Map<string, Map<string, string>>();
+
+  constructor(
+    private readonly adapter: DataAdapter,
+    private readonly extensions: () => string[],
+    private readonly compile: (path: string, source: string) => Promise<string>,
+  ) {}
+
+  /** Read and resolve everything `source` (stored at `path`) requires, transitively. */
+  async preload(path: string, source: string, seen = new Set<string>()): Promise<void> {
+    const importer = normalizePath(path);
+    if (seen.has(importer)) return;
+    seen.add(importer);
+
+    const resolved = new Map<string, string>();
+    for (const specifier of findRequires(source)) {
+      const target = await this.resolve(importer, specifier);
+      if (target) resolved.set(specifier, target);
+    }
+    this.resolutions.set(importer, resolved);
+    for (const target of new Set(resolved.values())) {
+      await this.preload(target, await this.readSource(target), seen);
+    }
+  }
+
+  /** Build the `require` passed to the scrippet at `path`, evaluating modules with its globals. */
+  createRequire(plugin: Plugin, path: string, options: Omit<LoadScrippetOptions, "require">): ScrippetRequire {
+    const cache = new Map<string, unknown>();
+    const loading = [normalizePath(path)];
+
+    const requireFrom =
+      (importer: string): ScrippetRequire =>
+      (specifier) => {
+        const target = this.resolutions.get(importer)?.get(specifier);
+        const source = target ? this.sources.get(target) : undefined;
+        if (!target || source == null) {
+          throw new Error(`Cannot find module "${specifier}" from ${importer}`);
+        }
+        if (cache.has(target)) return cache.get(target);
+        if (loading.includes(target)) {
+          const cycle = [...loading.slice(loading.indexOf(target)), target];
+          throw new Error(`Circular require: ${cycle.join(" -> ")}`);
+        }
+        loading.push(target);
+        try {
+          const exports = evaluateModule(plugin, appendSourceUrl(source, target), {
+            ...options,
+            require: requireFrom(target),
+          });
+          cache.set(target, exports);
+          return exports;
+        } finally {
+          loading.pop();
+        }
+      };
+
+    return requireFrom(loading[0]);
+  }
+
+  /**
+   * Forget the cached source for a changed or deleted file and return every file that requires
+   * it, directly or transitively.
+   */
+  invalidate(path: string): string[] {
+    const changed = normalizePath(path);
+    this.sources.delete(changed);
+
+    const dependents = new Set<string>();
+    const pending = [changed];
+    for (let current = pending.pop(); current != null; current = pending.pop()) {
+      this.resolutions.forEach((resolved, importer) => {
+        if (dependents.has(importer)) return;
+        if (!Array.from(resolved.values()).includes(current)) return;
+        dependents.add(importer);
+        pending.push(importer);
+      });
+    }
+    dependents.delete(changed);
+    return Array.from(dependents);
+  }
+
+  /** Whether some scrippet requires the file, which may live anywhere in the vault. */
+  isModule(path: string): boolean {
+    const normalized = normalizePath(path);
+    return Array.from(this.resolutions.values()).some((resolved) => Array.from(resolved.values()).includes(normalized));
+  }
+
+  clear(): void {
+    this.sources.clear();
+    this.resolutions.clear();
+  }
+
+  private async resolve(importer: string, specifier: string): Promise<string | null> {
+    const base = resolveSpecifier(importer, specifier);
+    if (!base) return null;
+    const candidates = [
+      base,
+      ...this.extensions().map((ext) => `${base}${ext}`),
+      ...this.extensions().map((ext) => `${base}/index${ext}`),
+    ];
+    for (const candidate of candidates) {
+      if (this.sources.has(candidate)) return candidate;
+      const stat = await this.adapter.stat(candidate);
+      if (stat?.type === "file") return candidate;
+    }
+    return null;
+  }
+
+  private async readSource(path: string): Promise<string> {
+    const cached = this.sources.get(path);
+    if (cached != null) return cached;
+    const source = await this.compile(path, await this.adapter.read(path));
+    this.sources.set(path, source);
+    return source;
+  }
+}
+
+function findRequires(source: string): string[] {
+  const specifiers = new Set<string>();
+  for (const match of toCommonJs(source).code.matchAll(REQUIRE_CALL)) {
+    specifiers.add(match[2]);
+  }
+  return Array.from(specifiers);
+}
+
+/**
+ * Turn a specifier into a vault path: `./` and `../` are relative to the requiring file and a
+ * leading `/` starts at the vault root. Bare module names are not supported.
+ */
+function resolveSpecifier(importer: string, specifier: string): string | null {
+  if (specifier.startsWith("/")) return normalizePath(specifier.slice(1));
+  if (!specifier.startsWith("./") && !specifier.startsWith("../")) return null;
+
+  const segments = importer.split("/").slice(0, -1);
+  for (const segment of specifier.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.length > 0 ? normalizePath(segments.join("/")) : null;
+}
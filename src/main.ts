@@ -1,6 +1,12 @@
-import { Plugin } from "obsidian";
+import { Notice, Plugin } from "obsidian";
 import { ScrippetManager } from "./scrippet-manager";
+import { TYPE_DEFINITIONS_FILE, writeTypeDefinitions } from "./type-definitions";
+import { URI_ACTION } from "./uri";
 import { DEFAULT_SETTINGS, type ScrippetPluginSettings } from "./types";
+import { CancelRunModal } from "./ui/cancel-run-modal";
+import { RUN_HISTORY_VIEW_TYPE, RunHistoryView } from "./ui/run-history-view";
+import { RunningStatusIndicator } from "./ui/running-status";
+import { SCRIPPET_BLOCK_LANGUAGE, renderScrippetBlock } from "./ui/scrippet-block";
 import { ScrippetSettingTab } from "./ui/settings-tab";
 
 export default class ScrippetPlugin extends Plugin {
@@ -10,7 +16,41 @@ export default class ScrippetPlugin extends Plugin {
   async onload(): Promise<void> {
     await this.loadSettings();
     this.manager = new ScrippetManager(this);
+    this.register(() => this.manager.history.flush());
+    this.registerView(RUN_HISTORY_VIEW_TYPE, (leaf) => new RunHistoryView(leaf, this));
+    this.addCommand({
+      id: "open-run-history",
+      name: "Open run history",
+      callback: () => {
+        void this.openRunHistory();
+      },
+    });
+    this.addCommand({
+      id: "cancel-running-scrippet",
+      name: "Cancel running scrippet",
+      callback: () => {
+        this.cancelRunningScrippet();
+      },
+    });
+    this.addCommand({
+      id: "generate-type-definitions",
+      name: "Generate type definitions",
+      callback: () => {
+        void this.generateTypeDefinitions();
+      },
+    });
+    new RunningStatusIndicator(this);
     await this.manager.initialize();
+    this.registerObsidianProtocolHandler(URI_ACTION, (params) => {
+      void this.manager.runFromUri(params);
+    });
+    this.registerMarkdownCodeBlockProcessor(SCRIPPET_BLOCK_LANGUAGE, (source, el, ctx) => {
+      renderScrippetBlock(this.manager, source, el, ctx.sourcePath);
+    });
+    const { typesVersion } = this.settings;
+    if (typesVersion != null && typesVersion !== this.manifest.version) {
+      await this.generateTypeDefinitions({ quiet: true });
+    }
     this.addSettingTab(new ScrippetSettingTab(this.app, this));
   }
 
@@ -26,4 +66,38 @@ export default class ScrippetPlugin extends Plugin {
   async saveSettings(): Promise<void> {
     await this.saveData(this.settings);
   }
+
+  /** Write `scrippets.d.ts` and `jsconfig.json` so external editors can type-check scrippets. */
+  async generateTypeDefinitions(options: { quiet?: boolean } = {}): Promise<void> {
+    try {
+      await writeTypeDefinitions(this.app.vault.adapter, this.settings.folder, this.manifest.version);
+      this.settings.typesVersion = this.manifest.version;
+      await this.saveSettings();
+      if (!options.quiet) new Notice(`Wrote ${TYPE_DEFINITIONS_FILE} to ${this.settings.folder}.`);
+    } catch (error) {
+      console.error("Scrippets: failed to write type definitions", error);
+      new Notice(`Failed to write ${TYPE_DEFINITIONS_FILE}: ${(error as Error).message ?? String(error)}`);
+    }
+  }
+
+  cancelRunningScrippet(): void {
+    const runs = this.manager.runningRuns;
+    if (runs.length === 0) {
+      new Notice("No scrippets are running.");
+      return;
+    }
+    if (runs.length === 1) {
+      this.manager.cancelRun(runs[0].runId);
+      return;
+    }
+    new CancelRunModal(this.app, this.manager).open();
+  }
+
+  async openRunHistory(): Promise<void> {
+    const { workspace } = this.app;
+    const existing = workspace.getLeavesOfType(RUN_HISTORY_VIEW_TYPE)[0];
+    const leaf = existing ?? workspace.getRightLeaf(false) ?? workspace.getLeaf(true);
+    if (!existing) await leaf.setViewState({ type: RUN_HISTORY_VIEW_TYPE, active: true });
+    await workspace.revealLeaf(leaf);
+  }
 }
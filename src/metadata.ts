@@ -1,9 +1,45 @@
 import { normalizePath, parseYaml, stringifyYaml } from "obsidian";
-import type { ScrippetMetadata } from "./types";
+import { isScrippetCondition } from "./conditions";
+import { parseDuration } from "./duration";
+import { toMenuTarget } from "./context-menus";
+import { toEventName } from "./event-triggers";
+import { parseHotkeys } from "./hotkeys";
+import { parseSchedule } from "./scheduler";
+import type {
+  ScrippetCommandDefinition,
+  ScrippetConcurrency,
+  ScrippetCondition,
+  ScrippetEventTrigger,
+  ScrippetFieldDefinition,
+  ScrippetFieldType,
+  ScrippetMenuTarget,
+  ScrippetMetadata,
+  ScrippetOutputMode,
+  ScrippetUriPolicy,
+} from "./types";
 
 const METADATA_COMMENT = /\/\*([\s\S]*?)\*\//;
 const DIRECTIVE = /@([\w-]+)\s*:\s*([^@]*)/g;
 const FRONTMATTER = /^---\s*\n([\s\S]*?)\n---\s*(?:\n|$)/;
+/** Header directives that may be given more than once; their values are collected into a list. */
+const REPEATABLE_DIRECTIVES = new Set(["hotkey"]);
+
+const CONCURRENCY_POLICIES: readonly ScrippetConcurrency[] = ["single", "queue", "parallel"];
+const OUTPUT_MODES: readonly ScrippetOutputMode[] = ["notice", "modal", "insert", "clipboard", "new-note"];
+const URI_POLICIES: readonly ScrippetUriPolicy[] = ["confirm", "allow"];
+
+const FIELD_TYPE_ALIASES: Record<string, ScrippetFieldType> = {
+  string: "string",
+  text: "string",
+  number: "number",
+  boolean: "boolean",
+  bool: "boolean",
+  toggle: "boolean",
+  dropdown: "dropdown",
+  select: "dropdown",
+  file: "file",
+  folder: "folder",
+};
 
 interface MetadataBlock {
   start: number;
@@ -54,6 +90,14 @@ export function parseScrippetMetadata(source: string): ParsedMetadata {
   return { metadata, source, frontmatter, comment };
 }
 
+/** Blank out YAML frontmatter so the source can be evaluated, keeping line numbers intact. */
+export function stripFrontmatter(source: string): string {
+  const match = FRONTMATTER.exec(source);
+  if (!match) return source;
+  const lines = match[0].split("\n").length - 1;
+  return "\n".repeat(lines) + source.slice(match[0].length);
+}
+
 export function buildHeaderSnippet(source: string, maxLines = 10): string {
   const lines = source.split(/\r?\n/).slice(0, maxLines);
   if (lines.length === 0) return "";
@@ -71,7 +115,7 @@ export function toDisplayName(filename: string, metadata: ScrippetMetadata): str
 
 export function toIdentifier(filePath: string, metadata: ScrippetMetadata): string {
   if (metadata.id) return slugify(metadata.id);
-  const base = getBasename(filePath).replace(/\.(?:c|m)?js$/i, "");
+  const base = getBasename(filePath).replace(/\.(?:(?:c|m)?js|ts)$/i, "");
   return slugify(base);
 }
 
@@ -112,27 +156,292 @@ function safeParseYaml(raw: string): Record<string, unknown> | null {
 
 function applyMetadataRecord(target: ScrippetMetadata, record: Record<string, unknown>): void {
   for (const [key, rawValue] of Object.entries(record)) {
-    if (!isMetadataPrimitive(rawValue)) continue;
-    const value = String(rawValue);
     const normalized = key.trim().toLowerCase();
     if (!normalized) continue;
+    if (normalized === "editor") {
+      const flag = parseBoolean(rawValue);
+      if (flag !== undefined) target.editor = flag;
+      continue;
+    }
+    if (normalized === "when") {
+      const conditions = parseConditions(rawValue);
+      if (conditions.length > 0) target.when = conditions;
+      continue;
+    }
+    if (normalized === "params") {
+      const params = parseFieldList(rawValue);
+      if (params.length > 0) target.params = params;
+      continue;
+    }
+    if (normalized === "settings") {
+      const settings = parseFieldMap(rawValue);
+      if (settings.length > 0) target.settings = settings;
+      continue;
+    }
+    if (normalized === "commands") {
+      const commands = parseCommandMap(rawValue);
+      if (commands.length > 0) target.commands = commands;
+      continue;
+    }
+    if (normalized === "on") {
+      const triggers = parseEventTriggers(rawValue);
+      if (triggers.length > 0) target.on = triggers;
+      continue;
+    }
+    if (normalized === "debounce") {
+      const delay = parseDuration(rawValue);
+      if (delay != null) target.debounce = delay;
+      continue;
+    }
+    if (normalized === "timeout") {
+      const timeout = parseDuration(rawValue);
+      if (timeout) target.timeout = timeout;
+      continue;
+    }
+    if (normalized === "concurrency") {
+      const policy = isMetadataPrimitive(rawValue) ? String(rawValue).trim().toLowerCase() : "";
+      if ((CONCURRENCY_POLICIES as readonly string[]).includes(policy)) {
+        target.concurrency = policy as ScrippetConcurrency;
+      } else {
+        console.warn(`Scrippets: ignoring unknown @concurrency "${policy}"`);
+      }
+      continue;
+    }
+    if (normalized === "output") {
+      const mode = isMetadataPrimitive(rawValue) ? String(rawValue).trim().toLowerCase() : "";
+      if ((OUTPUT_MODES as readonly string[]).includes(mode)) {
+        target.output = mode as ScrippetOutputMode;
+      } else {
+        console.warn(`Scrippets: ignoring unknown @output "${mode}"`);
+      }
+      continue;
+    }
+    if (normalized === "uri") {
+      const policy = isMetadataPrimitive(rawValue) ? String(rawValue).trim().toLowerCase() : "";
+      if ((URI_POLICIES as readonly string[]).includes(policy)) {
+        target.uri = policy as ScrippetUriPolicy;
+      } else {
+        console.warn(`Scrippets: ignoring unknown @uri "${policy}"`);
+      }
+      continue;
+    }
+    if (normalized === "schedule") {
+      const expression = isMetadataPrimitive(rawValue) ? String(rawValue).trim() : "";
+      if (parseSchedule(expression)) target.schedule = expression;
+      else console.warn(`Scrippets: ignoring invalid @schedule "${expression}"`);
+      continue;
+    }
+    if (normalized === "hotkey" || normalized === "hotkeys") {
+      const hotkeys = parseHotkeys(rawValue);
+      if (hotkeys.length > 0) target.hotkeys = hotkeys;
+      continue;
+    }
+    if (normalized === "menu") {
+      const targets = parseMenuTargets(rawValue);
+      if (targets.length > 0) target.menu = targets;
+      continue;
+    }
+    if (normalized === "menu-ext") {
+      const extensions = parseList(rawValue).map((ext) => ext.replace(/^\./, "").toLowerCase());
+      if (extensions.length > 0) target.menuExtensions = extensions;
+      continue;
+    }
+    if (normalized === "ribbon") {
+      const flag = parseBoolean(rawValue);
+      if (flag !== undefined) target.ribbon = flag;
+      continue;
+    }
+    if (normalized === "catch-up" || normalized === "catchup") {
+      const flag = parseBoolean(rawValue);
+      if (flag !== undefined) target.catchUp = flag;
+      continue;
+    }
+    if (!isMetadataPrimitive(rawValue)) continue;
+    const value = String(rawValue);
     if (normalized === "description") target.description = value;
     else if (normalized === "desc") target.desc = value;
     else if (normalized === "name") target.name = value;
     else if (normalized === "id") target.id = value;
-    else target[normalized as keyof ScrippetMetadata] = value;
+    else if (normalized === "icon") target.icon = value.trim() || undefined;
+    else target[normalized] = value;
+  }
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (!isMetadataPrimitive(value)) return undefined;
+  const normalized = String(value).trim().toLowerCase();
+  if (["true", "yes", "on", "1"].includes(normalized)) return true;
+  if (["false", "no", "off", "0"].includes(normalized)) return false;
+  return undefined;
+}
+
+/** `@when` alternatives separated by `|`, each a list of conditions separated by commas or whitespace. */
+function parseConditions(value: unknown): ScrippetCondition[][] {
+  const text = Array.isArray(value)
+    ? value.filter(isMetadataPrimitive).join(",")
+    : isMetadataPrimitive(value)
+      ? String(value)
+      : "";
+  const alternatives: ScrippetCondition[][] = [];
+  for (const alternative of text.split("|")) {
+    const conditions: ScrippetCondition[] = [];
+    for (const entry of parseList(alternative)) {
+      const condition = entry.toLowerCase();
+      if (isScrippetCondition(condition)) conditions.push(condition);
+      else console.warn(`Scrippets: ignoring unknown @when condition "${condition}"`);
+    }
+    if (conditions.length > 0) alternatives.push(conditions);
   }
+  return alternatives;
+}
+
+function parseMenuTargets(value: unknown): ScrippetMenuTarget[] {
+  const targets: ScrippetMenuTarget[] = [];
+  for (const entry of parseList(value)) {
+    const menu = toMenuTarget(entry);
+    if (menu) targets.push(menu);
+    else console.warn(`Scrippets: ignoring unknown @menu "${entry}"`);
+  }
+  return targets;
+}
+
+/** Entries of a YAML list, or of a string separated by commas, pipes, or whitespace. */
+function parseList(value: unknown): string[] {
+  const entries: unknown[] = Array.isArray(value)
+    ? value
+    : isMetadataPrimitive(value)
+      ? String(value).split(/[,|\s]+/)
+      : [];
+  return entries
+    .filter(isMetadataPrimitive)
+    .map((entry) => String(entry).trim())
+    .filter((entry) => entry !== "");
+}
+
+function parseEventTriggers(value: unknown): ScrippetEventTrigger[] {
+  const entries: unknown[] = Array.isArray(value)
+    ? value
+    : isMetadataPrimitive(value)
+      ? String(value).split(",")
+      : [];
+  const triggers: ScrippetEventTrigger[] = [];
+  for (const entry of entries) {
+    if (!isMetadataPrimitive(entry)) continue;
+    const [rawEvent, ...rest] = String(entry).trim().split(/\s+/);
+    if (!rawEvent) continue;
+    const event = toEventName(rawEvent);
+    if (!event) {
+      console.warn(`Scrippets: ignoring unknown @on event "${rawEvent}"`);
+      continue;
+    }
+    const glob = rest.join(" ").trim();
+    triggers.push(glob ? { event, glob } : { event });
+  }
+  return triggers;
+}
+
+function parseFieldList(value: unknown): ScrippetFieldDefinition[] {
+  const entries = typeof value === "string" ? parseInlineYaml(value) : value;
+  if (!Array.isArray(entries)) return [];
+  const fields: ScrippetFieldDefinition[] = [];
+  for (const entry of entries) {
+    const field = isRecord(entry) ? parseFieldDefinition(entry.name, entry) : null;
+    if (field) fields.push(field);
+  }
+  return fields;
+}
+
+/**
+ * Parse `settings`, keyed by option name (`{verbose: {type: boolean}}`, or `{verbose: boolean}`
+ * as shorthand for the type). A list in the `params` shape is accepted as well.
+ */
+function parseFieldMap(value: unknown): ScrippetFieldDefinition[] {
+  const entries = typeof value === "string" ? parseInlineYaml(value) : value;
+  if (Array.isArray(entries)) return parseFieldList(entries);
+  if (!isRecord(entries)) return [];
+  const fields: ScrippetFieldDefinition[] = [];
+  for (const [name, definition] of Object.entries(entries)) {
+    const record = isRecord(definition) ? definition : { type: definition };
+    const field = parseFieldDefinition(name, record);
+    if (field) fields.push(field);
+  }
+  return fields;
+}
+
+/**
+ * Parse `commands`, keyed by the export key (`{up: Heading up}`, or `{up: {name: Heading up,
+ * icon: arrow-up, ribbon: true, hotkey: Mod+Alt+Up}}`). Entries without a name are named after their key.
+ */
+function parseCommandMap(value: unknown): ScrippetCommandDefinition[] {
+  const entries = typeof value === "string" ? parseInlineYaml(value) : value;
+  if (!isRecord(entries)) return [];
+  const commands: ScrippetCommandDefinition[] = [];
+  for (const [key, definition] of Object.entries(entries)) {
+    if (!slugify(key)) continue;
+    const record = isRecord(definition) ? definition : { name: definition };
+    const name = isMetadataPrimitive(record.name) ? String(record.name).trim() : "";
+    const icon = isMetadataPrimitive(record.icon) ? String(record.icon).trim() : "";
+    const ribbon = parseBoolean(record.ribbon);
+    const hotkeys = parseHotkeys(record.hotkey ?? record.hotkeys);
+    commands.push({
+      key,
+      name: name || toDisplayName(key, {}),
+      ...(icon ? { icon } : {}),
+      ...(ribbon ? { ribbon } : {}),
+      ...(hotkeys.length > 0 ? { hotkeys } : {}),
+    });
+  }
+  return commands;
+}
+
+function parseFieldDefinition(name: unknown, record: Record<string, unknown>): ScrippetFieldDefinition | null {
+  if (!isMetadataPrimitive(name) || String(name).trim() === "") return null;
+  const options = Array.isArray(record.options)
+    ? record.options.filter(isMetadataPrimitive).map((option) => String(option))
+    : undefined;
+  const rawType = isMetadataPrimitive(record.type) ? String(record.type).trim().toLowerCase() : "";
+  const type = FIELD_TYPE_ALIASES[rawType] ?? (options?.length ? "dropdown" : "string");
+  if (rawType && !FIELD_TYPE_ALIASES[rawType]) {
+    console.warn(`Scrippets: unknown field type "${rawType}" for "${String(name)}", using ${type}`);
+  }
+  return {
+    name: String(name).trim(),
+    type,
+    label: isMetadataPrimitive(record.label) ? String(record.label) : undefined,
+    description: isMetadataPrimitive(record.description) ? String(record.description) : undefined,
+    default: record.default,
+    options,
+  };
+}
+
+function parseInlineYaml(raw: string): unknown {
+  try {
+    return parseYaml(raw) as unknown;
+  } catch (error) {
+    console.warn("Scrippets: failed to parse directive value", error);
+    return null;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === "object" && !Array.isArray(value);
 }
 
 function parseComment(block: string): Record<string, unknown> {
   const meta: Record<string, unknown> = {};
+  const body = block
+    .replace(/^\/\*+/, "")
+    .replace(/\*+\/$/, "")
+    .replace(/^[ \t]*\*+[ \t]?/gm, "");
   let directive: RegExpExecArray | null;
   DIRECTIVE.lastIndex = 0;
-  while ((directive = DIRECTIVE.exec(block)) !== null) {
+  while ((directive = DIRECTIVE.exec(body)) !== null) {
     const key = directive[1]?.trim().toLowerCase();
     const value = directive[2]?.trim();
     if (!key || !value) continue;
-    meta[key] = value;
+    const previous = meta[key];
+    meta[key] = REPEATABLE_DIRECTIVES.has(key) && previous !== undefined ? [previous, value].flat() : value;
   }
   return meta;
 }
@@ -0,0 +1,57 @@
+import { Notice, moment, normalizePath, TFile, type App } from "obsidian";
+import { MarkdownResultModal } from "./ui/markdown-result-modal";
+import type { ScrippetInvocationContext, ScrippetOutputMode } from "./types";
+
+/** Hand a scrippet's return value to its `@output` mode. `undefined` and `null` are ignored. */
+export async function deliverOutput(
+  app: App,
+  mode: ScrippetOutputMode,
+  context: ScrippetInvocationContext,
+  value: unknown,
+): Promise<void> {
+  if (value === undefined || value === null) return;
+  const text = toOutputText(value);
+  const { descriptor } = context;
+
+  switch (mode) {
+    case "notice":
+      new Notice(text);
+      break;
+    case "modal":
+      new MarkdownResultModal(app, descriptor.name, text, context.file?.path ?? "").open();
+      break;
+    case "insert":
+      if (!context.editor) throw new Error("No active editor to insert the output into");
+      context.editor.replaceSelection(text);
+      break;
+    case "clipboard":
+      if (!navigator.clipboard) throw new Error("Clipboard API unavailable");
+      await navigator.clipboard.writeText(text);
+      new Notice(`Copied output of "${descriptor.name}".`);
+      break;
+    case "new-note": {
+      const file = await createResultNote(app, descriptor.name, text, context.file?.path ?? "");
+      await app.workspace.getLeaf(true).openFile(file);
+      break;
+    }
+  }
+}
+
+function toOutputText(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "object") return JSON.stringify(value, null, 2);
+  return String(value as string | number | boolean | bigint | symbol);
+}
+
+/** Create `<name> <timestamp>.md` wherever new notes go relative to the active file. */
+async function createResultNote(app: App, name: string, content: string, sourcePath: string): Promise<TFile> {
+  const parent = app.fileManager.getNewFileParent(sourcePath);
+  const stamp = moment().format("YYYY-MM-DD HHmmss");
+  const base = `${name.replace(/[\\/:*?"<>|#^[\]]/g, "-")} ${stamp}`;
+  const folder = parent.isRoot() ? "" : `${parent.path}/`;
+  let path = normalizePath(`${folder}${base}.md`);
+  for (let counter = 2; app.vault.getAbstractFileByPath(path); counter++) {
+    path = normalizePath(`${folder}${base} ${counter}.md`);
+  }
+  return app.vault.create(path, content);
+}
@@ -0,0 +1,106 @@
+import { debounce, normalizePath, type Debouncer } from "obsidian";
+import { ScrippetAbortError } from "./cancellation";
+import { SOURCE_LINE_OFFSET } from "./scrippet-loader";
+import type { ScrippetHost } from "./scrippet-manager";
+import type { ScrippetDescriptor, ScrippetRunRecord, ScrippetTrigger } from "./types";
+
+export interface RunStart {
+  runId: string;
+  descriptor: ScrippetDescriptor;
+  trigger: ScrippetTrigger;
+  startedAt: number;
+}
+
+/** Event-triggered scrippets can run on every pause in typing, so history is written at most this often. */
+const SAVE_DELAY = 2000;
+
+let runCounter = 0;
+
+export function startRun(descriptor: ScrippetDescriptor, trigger: ScrippetTrigger): RunStart {
+  runCounter += 1;
+  const startedAt = Date.now();
+  return { runId: `${startedAt.toString(36)}-${runCounter}`, descriptor, trigger, startedAt };
+}
+
+/** Capped log of recent runs, persisted with the plugin settings. */
+export class RunHistory {
+  private readonly plugin: ScrippetHost;
+  private readonly listeners = new Set<() => void>();
+  private readonly save: Debouncer<[], void>;
+
+  constructor(plugin: ScrippetHost) {
+    this.plugin = plugin;
+    this.save = debounce(
+      () => {
+        this.plugin.saveSettings().catch((error) => console.error("Scrippets: failed to save run history", error));
+      },
+      SAVE_DELAY,
+      false,
+    );
+  }
+
+  get entries(): ScrippetRunRecord[] {
+    return this.plugin.settings.runHistory;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Add a finished run. The entry is visible right away; saving it is batched with other runs. */
+  record(run: RunStart, error?: unknown): ScrippetRunRecord {
+    const { descriptor } = run;
+    const entry: ScrippetRunRecord = {
+      runId: run.runId,
+      scrippetId: descriptor.id,
+      name: descriptor.name,
+      path: normalizePath(descriptor.path),
+      trigger: run.trigger,
+      startedAt: run.startedAt,
+      duration: Date.now() - run.startedAt,
+      outcome: error === undefined ? "success" : "error",
+    };
+    if (error instanceof ScrippetAbortError) {
+      entry.outcome = error.reason;
+      entry.error = error.message;
+    } else if (error !== undefined) {
+      const failure = error as Error;
+      entry.error = failure?.message ?? String(failure);
+      entry.stack = failure?.stack;
+      entry.line = findSourceLine(entry.stack, entry.path);
+    }
+    const limit = Math.max(1, this.plugin.settings.historyLimit);
+    this.plugin.settings.runHistory = [...this.entries, entry].slice(-limit);
+    this.save();
+    this.notify();
+    return entry;
+  }
+
+  /** Write a pending batch of runs now, for example when the plugin unloads. */
+  flush(): void {
+    this.save.run();
+  }
+
+  async clear(): Promise<void> {
+    this.save.cancel();
+    this.plugin.settings.runHistory = [];
+    await this.plugin.saveSettings();
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+function findSourceLine(stack: string | undefined, path: string): number | undefined {
+  if (!stack) return undefined;
+  const marker = `<vault>/${path}:`;
+  const index = stack.indexOf(marker);
+  if (index < 0) return undefined;
+  const match = /^(\d+)/.exec(stack.slice(index + marker.length));
+  if (!match) return undefined;
+  const line = Number(match[1]) - SOURCE_LINE_OFFSET;
+  return line > 0 ? line : undefined;
+}
@@ -0,0 +1,92 @@
+export type ConsoleLevel = "log" | "info" | "warn" | "error" | "debug";
+
+export interface ConsoleEntry {
+  /** Run that was active when the line was written; null for output from listeners between runs. */
+  runId: string | null;
+  level: ConsoleLevel;
+  timestamp: number;
+  message: string;
+}
+
+export type ScrippetConsole = Console;
+
+const LEVELS: readonly ConsoleLevel[] = ["log", "info", "warn", "error", "debug"];
+const MAX_ENTRIES_PER_SCRIPPET = 500;
+
+/** In-memory console output per scrippet, tagged with the run that produced it. */
+export class RunOutput {
+  private readonly entries = new Map<string, ConsoleEntry[]>();
+  private readonly activeRuns = new Map<string, string[]>();
+
+  /**
+   * Console handed to a scrippet: the real console with the logging levels overridden to also
+   * record each line, so `table`, `time`, `group` and the rest keep working.
+   */
+  createConsole(scrippetId: string): ScrippetConsole {
+    const target = Object.create(console) as ScrippetConsole;
+    for (const level of LEVELS) {
+      target[level] = (...args: unknown[]) => {
+        console[level](...args);
+        this.append(scrippetId, level, args);
+      };
+    }
+    return target;
+  }
+
+  begin(scrippetId: string, runId: string): void {
+    const runs = this.activeRuns.get(scrippetId) ?? [];
+    runs.push(runId);
+    this.activeRuns.set(scrippetId, runs);
+  }
+
+  end(scrippetId: string, runId: string): void {
+    const runs = this.activeRuns.get(scrippetId);
+    if (!runs) return;
+    const index = runs.lastIndexOf(runId);
+    if (index >= 0) runs.splice(index, 1);
+    if (runs.length === 0) this.activeRuns.delete(scrippetId);
+  }
+
+  get(scrippetId: string, runId?: string): ConsoleEntry[] {
+    const entries = this.entries.get(scrippetId) ?? [];
+    return runId ? entries.filter((entry) => entry.runId === runId) : entries;
+  }
+
+  has(scrippetId: string, runId?: string): boolean {
+    return this.get(scrippetId, runId).length > 0;
+  }
+
+  clear(scrippetId: string): void {
+    this.entries.delete(scrippetId);
+  }
+
+  private append(scrippetId: string, level: ConsoleLevel, args: unknown[]): void {
+    const runs = this.activeRuns.get(scrippetId);
+    const entry: ConsoleEntry = {
+      runId: runs?.[runs.length - 1] ?? null,
+      level,
+      timestamp: Date.now(),
+      message: args.map((arg) => formatArgument(arg)).join(" "),
+    };
+    const entries = this.entries.get(scrippetId) ?? [];
+    entries.push(entry);
+    if (entries.length > MAX_ENTRIES_PER_SCRIPPET) entries.splice(0, entries.length - MAX_ENTRIES_PER_SCRIPPET);
+    this.entries.set(scrippetId, entries);
+  }
+}
+
+export function formatConsoleEntry(entry: ConsoleEntry): string {
+  const time = new Date(entry.timestamp).toLocaleTimeString();
+  return `[${time}] ${entry.level.toUpperCase()} ${entry.message}`;
+}
+
+function formatArgument(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return value.stack ?? `${value.name}: ${value.message}`;
+  if (value === undefined || typeof value === "function" || typeof value === "symbol") return String(value);
+  try {
+    return JSON.stringify(value, null, 2) ?? Object.prototype.toString.call(value);
+  } catch {
+    return Object.prototype.toString.call(value);
+  }
+}
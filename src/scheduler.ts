@@ -0,0 +1,149 @@
+import { parseDuration } from "./duration";
+
+interface CronSchedule {
+  kind: "cron";
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Cron matches either restricted day field when both day-of-month and day-of-week are set. */
+  anyDay: boolean;
+}
+
+interface IntervalSchedule {
+  kind: "interval";
+  every: number;
+}
+
+export type Schedule = CronSchedule | IntervalSchedule;
+
+const MIN_INTERVAL = 60_000;
+const MAX_CRON_STEPS = 10_000;
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * Parse `every <duration>`, `hourly`, `daily HH:MM`, or a five-field cron expression
+ * (`minute hour day-of-month month day-of-week`). Returns null when the expression is invalid.
+ */
+export function parseSchedule(expression: string): Schedule | null {
+  const normalized = expression.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!normalized) return null;
+
+  const every = /^every (.+)$/.exec(normalized);
+  if (every) {
+    const interval = parseDuration(every[1].replace(/\s+/g, ""));
+    return interval != null && interval >= MIN_INTERVAL ? { kind: "interval", every: interval } : null;
+  }
+  if (normalized === "hourly") return parseCron("0 * * * *");
+
+  const daily = /^daily(?: at)? (\d{1,2}):(\d{2})$/.exec(normalized);
+  if (daily) {
+    const hour = Number(daily[1]);
+    const minute = Number(daily[2]);
+    if (hour > 23 || minute > 59) return null;
+    return parseCron(`${minute} ${hour} * * *`);
+  }
+
+  return parseCron(normalized);
+}
+
+/** First occurrence strictly after `from`, or null when the schedule never fires. */
+export function nextOccurrence(schedule: Schedule, from: number): number | null {
+  if (schedule.kind === "interval") return from + schedule.every;
+
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  for (let step = 0; step < MAX_CRON_STEPS; step++) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date.getTime();
+  }
+  return null;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayMatch = schedule.days.has(date.getDate());
+  const weekdayMatch = schedule.weekdays.has(date.getDay());
+  return schedule.anyDay ? dayMatch || weekdayMatch : dayMatch && weekdayMatch;
+}
+
+function parseCron(expression: string): CronSchedule | null {
+  const fields = expression.split(" ");
+  if (fields.length !== 5) return null;
+  const [minuteField, hourField, dayField, monthField, weekdayField] = fields;
+  const minutes = parseCronField(minuteField, 0, 59);
+  const hours = parseCronField(hourField, 0, 23);
+  const days = parseCronField(dayField, 1, 31);
+  const months = parseCronField(monthField, 1, 12, MONTH_NAMES, 1);
+  // Sunday may be written as 0 or 7; it is folded to 0 once ranges such as `5-7` are expanded.
+  const weekdays = parseCronField(weekdayField, 0, 7, WEEKDAY_NAMES, 0);
+  if (!minutes || !hours || !days || !months || !weekdays) return null;
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    kind: "cron",
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: !isWildcard(dayField) && !isWildcard(weekdayField),
+  };
+}
+
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  nameOffset = 0,
+): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) return null;
+
+    let start: number;
+    let end: number;
+    if (range === "*" || range === "?") {
+      start = min;
+      end = max;
+    } else {
+      const [from, to] = range.split("-");
+      start = parseCronValue(from, names, nameOffset);
+      end = to === undefined ? (stepText === undefined ? start : max) : parseCronValue(to, names, nameOffset);
+    }
+    if (Number.isNaN(start) || Number.isNaN(end) || start < min || end > max || start > end) return null;
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return values.size > 0 ? values : null;
+}
+
+function parseCronValue(value: string, names: string[], offset: number): number {
+  const named = names.indexOf(value);
+  if (named >= 0) return named + offset;
+  return /^\d+$/.test(value) ? Number(value) : NaN;
+}
+
+function isWildcard(field: string): boolean {
+  return field === "*" || field === "?";
+}
@@ -1,29 +1,54 @@
-import { Notice, type Plugin } from "obsidian";
+import { Notice, normalizePath, type Plugin } from "obsidian";
+import { toCommonJs } from "./esm";
+import type { ScrippetHelpers } from "./helpers";
+import type { ScrippetConsole } from "./run-output";
 import type { ScrippetModule } from "./types";
 
-type ModuleFactory = (plugin: Plugin, app: Plugin["app"], notice: typeof Notice) => unknown;
+type ModuleFactory = (
+  plugin: Plugin,
+  app: Plugin["app"],
+  notice: typeof Notice,
+  console: ScrippetConsole,
+  require: ScrippetRequire,
+  scrippets: ScrippetHelpers | undefined,
+) => unknown;
 
-export function loadScrippet(plugin: Plugin, source: string): ScrippetModule {
-  // eslint-disable-next-line @typescript-eslint/no-implied-eval
-  const factory = new Function(
-    "plugin",
-    "app",
-    "Notice",
-    `"use strict";
+export type ScrippetRequire = (specifier: string) => unknown;
+
+export interface LoadScrippetOptions {
+  /** Console exposed to the scrippet in place of the global one. */
+  console?: ScrippetConsole;
+  /** Resolver for `require()` calls; without one, requiring anything throws. */
+  require?: ScrippetRequire;
+  /** Helper API exposed as the `scrippets` global. */
+  helpers?: ScrippetHelpers;
+}
+
+const FACTORY_PARAMS = ["plugin", "app", "Notice", "console", "require", "scrippets"] as const;
+
+const PRELUDE = `"use strict";
 const sandbox = Object.create(null);
 sandbox.app = app;
 sandbox.Notice = Notice;
 sandbox.plugin = plugin;
+sandbox.console = console;
+sandbox.require = require;
+sandbox.scrippets = scrippets;
 const window = sandbox;
 const global = sandbox;
 const globalThis = sandbox;
 const self = sandbox;
 let module = { exports: {} };
 let exports = module.exports;
-let Scrippet;
-let defaultExport;
-let invoke;
-${source}
+`;
+
+/**
+ * Names plain scripts may assign their scrippet to. Kept on one line, left empty for ES modules
+ * (which declare their own `invoke`), so the prelude is the same length either way.
+ */
+const SCRIPT_GLOBALS = "let Scrippet, defaultExport, invoke;";
+
+const EPILOGUE = `
 return (typeof module !== 'undefined' && module.exports)
   || (typeof exports !== 'undefined' && exports)
   || (typeof Scrippet !== 'undefined' && Scrippet)
@@ -31,19 +56,78 @@ return (typeof module !== 'undefined' && module.exports)
   || (typeof invoke === 'function' && { invoke })
   || (typeof window.Scrippet === 'function' && window.Scrippet)
   ;
-    `,
-  ) as ModuleFactory;
+    `;
+
+/**
+ * Lines that precede the scrippet source in evaluated code: the two-line header `new Function`
+ * generates (`function anonymous(...`, `) {`) plus the prelude and its script-globals line.
+ */
+export const SOURCE_LINE_OFFSET = 2 + PRELUDE.split("\n").length;
 
-  const mod = factory(plugin, plugin.app, Notice);
-  const instance = typeof mod === "function" ? new (mod as new (plugin: Plugin) => unknown)(plugin) : mod;
+export function loadScrippet(
+  plugin: Plugin,
+  source: string,
+  options: LoadScrippetOptions = {},
+): ScrippetModule {
+  const instance = instantiate(plugin, evaluateModule(plugin, source, options));
   if (!isScrippetModule(instance)) {
-    throw new Error("Scrippet must expose invoke(plugin)");
+    throw new Error("Scrippet must expose invoke(plugin) or onload(ctx)");
   }
   return instance;
 }
 
+/**
+ * Evaluate source in the scrippet sandbox and return whatever it exports. ES module syntax is
+ * rewritten to CommonJS first, keeping line numbers intact.
+ */
+export function evaluateModule(plugin: Plugin, source: string, options: LoadScrippetOptions = {}): unknown {
+  const { code, isModule } = toCommonJs(source);
+  const prelude = `${PRELUDE}${isModule ? "" : SCRIPT_GLOBALS}\n`;
+  // eslint-disable-next-line @typescript-eslint/no-implied-eval
+  const factory = new Function(...FACTORY_PARAMS, `${prelude}${code}${EPILOGUE}`) as ModuleFactory;
+  return factory(
+    plugin,
+    plugin.app,
+    Notice,
+    options.console ?? console,
+    options.require ?? requireUnavailable,
+    options.helpers,
+  );
+}
+
+/** Tag evaluated source with its vault path so stack traces point at the file. */
+export function appendSourceUrl(source: string, path: string): string {
+  const normalized = normalizePath(path);
+  const marker = "//# sourceURL=";
+  if (source.includes(marker)) return source;
+  return `${source}\n${marker}<vault>/${normalized}`;
+}
+
+/**
+ * Turn what a scrippet exports into its instance. CommonJS functions are classes to construct; ES
+ * modules export either a default scrippet or a named `invoke`/`onload`, and a default function
+ * that is not a class is the `invoke` itself.
+ */
+function instantiate(plugin: Plugin, mod: unknown): unknown {
+  let target = mod;
+  if (mod && typeof mod === "object" && (mod as Record<string, unknown>).__esModule === true) {
+    const { default: fallback } = mod as Record<string, unknown>;
+    if (typeof fallback === "function" && !isClass(fallback)) return { ...mod, invoke: fallback };
+    if (fallback != null) target = fallback;
+  }
+  return typeof target === "function" ? new (target as new (plugin: Plugin) => unknown)(plugin) : target;
+}
+
+function isClass(fn: unknown): boolean {
+  return /^class\b/.test(Function.prototype.toString.call(fn));
+}
+
+function requireUnavailable(specifier: string): never {
+  throw new Error(`Cannot require "${specifier}" here`);
+}
+
 function isScrippetModule(candidate: unknown): candidate is ScrippetModule {
   if (!candidate || typeof candidate !== "object") return false;
-  const invoke = (candidate as Record<string, unknown>).invoke;
-  return typeof invoke === "function";
+  const { invoke, onload } = candidate as Record<string, unknown>;
+  return typeof invoke === "function" || typeof onload === "function";
 }
@@ -1,8 +1,13 @@
 import {
   App,
+  type Command,
+  Component,
   DataAdapter,
+  MarkdownView,
   Notice,
+  type ObsidianProtocolData,
   Plugin,
+  debounce,
   TAbstractFile,
   TFile,
   normalizePath,
@@ -10,26 +15,59 @@ import {
 import {
   buildHeaderSnippet,
   parseScrippetMetadata,
+  slugify,
+  stripFrontmatter,
   toDisplayName,
   toIdentifier,
   updateScrippetId,
 } from "./metadata";
-import { loadScrippet } from "./scrippet-loader";
-import { confirmFirstRun } from "./ui/confirm-run-modal";
+import { ScrippetAbortError, raceAbort } from "./cancellation";
+import { matchesConditions } from "./conditions";
+import { formatDuration } from "./duration";
+import { createScrippetHelpers, type ScrippetHelpers } from "./helpers";
+import { subscribeToMenus } from "./context-menus";
+import { subscribeToEvent } from "./event-triggers";
+import { moveCustomHotkeys, parseHotkeys } from "./hotkeys";
+import { nextOccurrence, parseSchedule } from "./scheduler";
+import { createInvocationContext, type ScrippetState } from "./invocation-context";
+import { RunHistory, startRun, type RunStart } from "./run-history";
+import { deliverOutput } from "./result-output";
+import { RunOutput } from "./run-output";
+import { ScrippetStorageStore } from "./storage";
+import { LIBRARY_FOLDER, ScrippetLibrary } from "./library";
+import { appendSourceUrl, loadScrippet } from "./scrippet-loader";
+import { isDeclarationPath, isTypeScriptPath, TypeScriptTranspiler } from "./typescript";
+import { parseUriArguments } from "./uri";
+import { confirmFirstRun, confirmInlineRun, confirmUriRun } from "./ui/confirm-run-modal";
+import { resolveFieldValues } from "./ui/field-controls";
+import { promptForParameters } from "./ui/parameter-modal";
+import { RunOutputModal } from "./ui/run-output-modal";
 import type {
   LoadedScrippet,
+  ScrippetCommandDefinition,
+  ScrippetInvocationContext,
   ScrippetDuplicate,
   ScrippetDescriptor,
+  ScrippetEventPayload,
   ScrippetLoadError,
+  ScrippetModule,
   ScrippetPluginSettings,
   ScrippetScanResult,
   ScrippetKind,
+  ScrippetRunOptions,
+  ScrippetTrigger,
   ScriptPreference,
 } from "./types";
 import { DEFAULT_SETTINGS } from "./types";
 
 const STARTUP_FOLDER = "startup";
 const COMMAND_PREFIX = "scrippet";
+const DEFAULT_EVENT_DEBOUNCE = 250;
+const DEFAULT_RIBBON_ICON = "scroll";
+/** Triggers that run without a user gesture and therefore never open prompts. */
+const BACKGROUND_TRIGGERS: readonly ScrippetTrigger[] = ["startup", "event", "schedule"];
+/** Browsers overflow timers beyond ~24.8 days, so long waits are re-armed in chunks. */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
 interface PendingChanges {
   changed: Set<string>;
@@ -41,6 +79,11 @@ function createPendingChanges(): PendingChanges {
   return { changed: new Set(), deleted: new Set(), full: false };
 }
 
+interface ActiveRun {
+  run: RunStart;
+  controller: AbortController;
+}
+
 interface QueuedChange {
   type: "changed" | "deleted" | "full";
   path?: string;
@@ -53,9 +96,24 @@ export interface ScrippetHost extends Plugin {
 }
 
 export class ScrippetManager {
+  readonly history: RunHistory;
+  readonly output = new RunOutput();
+  readonly storage: ScrippetStorageStore;
   private readonly plugin: ScrippetHost;
   private commands = new Map<string, string>();
+  private registrations = new Map<string, Component>();
+  private approvalNotices = new Set<string>();
+  private nextRuns = new Map<string, number>();
+  private activeRuns = new Map<string, ActiveRun>();
+  /** In-flight (including queued) run count per scrippet id, for `@concurrency`. */
+  private runSlots = new Map<string, number>();
+  private runQueues = new Map<string, Promise<void>>();
+  private readonly library: ScrippetLibrary;
+  private readonly transpiler = new TypeScriptTranspiler();
+  private readonly helpers: ScrippetHelpers;
+  private runListeners = new Set<() => void>();
   private instanceCache = new Map<string, LoadedScrippet>();
+  private pendingLoads = new Map<string, Promise<LoadedScrippet>>();
   private descriptorsByPath = new Map<string, ScrippetDescriptor>();
   private descriptorsById = new Map<string, ScrippetDescriptor>();
   private listeners = new Set<() => void>();
@@ -80,6 +138,14 @@ export class ScrippetManager {
 
   constructor(plugin: ScrippetHost) {
     this.plugin = plugin;
+    this.history = new RunHistory(plugin);
+    this.storage = new ScrippetStorageStore(plugin);
+    this.helpers = createScrippetHelpers(plugin.app);
+    this.library = new ScrippetLibrary(
+      plugin.app.vault.adapter,
+      () => plugin.settings.allowedExtensions,
+      (path, source) => this.compileSource(path, source),
+    );
   }
 
   get scan(): ScrippetScanResult {
@@ -118,10 +184,89 @@ export class ScrippetManager {
     await this.executeStartup(this.lastScan.startup);
   }
 
-  async executeById(id: string): Promise<void> {
+  async executeById(id: string, options: ScrippetRunOptions = {}): Promise<void> {
     const descriptor = this.descriptorsById.get(id);
     if (!descriptor) return;
-    await this.executeDescriptor(descriptor);
+    await this.executeDescriptor(descriptor, options);
+  }
+
+  /** Handle an `obsidian://scrippets?run=<id>&arg.<name>=<value>` link. */
+  async runFromUri(params: ObsidianProtocolData): Promise<void> {
+    const id = (params.run ?? "").trim();
+    if (!id) {
+      new Notice("Scrippets link is missing run=<id>.");
+      return;
+    }
+    const descriptor = this.descriptorsById.get(id);
+    if (!descriptor) {
+      new Notice(`No scrippet with id "${id}".`);
+      return;
+    }
+    const args = parseUriArguments(params, descriptor.metadata.params ?? []);
+    await this.executeDescriptor(descriptor, { trigger: "uri", args });
+  }
+
+  /**
+   * Run the JavaScript of a `scrippet` code block as the body of `invoke(plugin, ctx)`. A block has
+   * no id to remember an approval by, so every run is confirmed unless its note is in a trusted
+   * folder or first-run confirmation is off.
+   */
+  async runInline(
+    sourcePath: string,
+    code: string,
+    options: { name: string; args?: Record<string, unknown> },
+  ): Promise<void> {
+    const descriptor: ScrippetDescriptor = {
+      id: `inline:${sourcePath}`,
+      name: options.name,
+      path: sourcePath,
+      kind: "command",
+      metadata: {},
+      enabled: true,
+      headerSnippet: buildHeaderSnippet(code),
+      modified: Date.now(),
+    };
+    if (this.shouldConfirmFirstRun(descriptor) && !(await confirmInlineRun(this.plugin.app, descriptor))) return;
+
+    await this.withRunSlot(descriptor, false, async () => {
+      const controller = new AbortController();
+      const state = { storage: this.storage.for(descriptor.id), settings: {} };
+      const context = createInvocationContext(this.plugin, descriptor, state, {
+        trigger: "codeblock",
+        args: options.args,
+        signal: controller.signal,
+      });
+      const run = startRun(descriptor, "codeblock");
+      this.output.begin(descriptor.id, run.runId);
+      try {
+        const source = `module.exports = { async invoke(plugin, ctx) {\n${code}\n} };`;
+        const load = () =>
+          loadScrippet(this.plugin, source, {
+            console: this.output.createConsole(descriptor.id),
+            helpers: this.helpers,
+          });
+        await this.invokeTracked(load, context, run, controller);
+        this.history.record(run);
+      } catch (error) {
+        this.history.record(run, error);
+        if (error instanceof ScrippetAbortError) {
+          new Notice(error.message);
+          return;
+        }
+        console.error(`Scrippets: scrippet block in "${sourcePath}" failed`, error);
+        this.noticeFailure(
+          `Scrippet block in "${sourcePath}" failed: ${(error as Error).message ?? String(error)}`,
+          descriptor.id,
+          run.runId,
+        );
+      } finally {
+        this.output.end(descriptor.id, run.runId);
+      }
+    });
+  }
+
+  getDescriptor(id: string): ScrippetDescriptor | undefined {
+    return this.descriptorsById.get(id);
   }
 
   async toggleDescriptor(descriptor: ScrippetDescriptor, enabled: boolean): Promise<void> {
@@ -130,10 +275,14 @@ export class ScrippetManager {
     this.settingsDirty = true;
     const record = this.descriptorsById.get(descriptor.id);
     if (record) record.enabled = enabled;
-
-    if (descriptor.kind === "command") {
-      if (enabled) this.registerCommand(record ?? descriptor);
-      else this.unregisterCommand(descriptor.id);
+    if (!enabled) this.disposeInstance(descriptor.id);
+
+    const target = record ?? descriptor;
+    if (!enabled) {
+      this.deactivateDescriptor(descriptor.id);
+      target.subcommands?.forEach((subcommand) => this.deactivateDescriptor(subcommand.id));
+    } else if (!target.parentId || this.getOwner(target).enabled) {
+      this.activateDescriptor(target);
     }
 
     this.updateLastScan();
@@ -141,6 +290,55 @@ export class ScrippetManager {
     await this.flushSettings();
   }
 
+  /** Next and last scheduled run times for a scrippet with `@schedule`. */
+  getScheduleTimes(id: string): { next?: number; last?: number } {
+    return {
+      next: this.nextRuns.get(id),
+      last: this.plugin.settings.scriptStates[id]?.lastRun,
+    };
+  }
+
+  get runningRuns(): RunStart[] {
+    return Array.from(this.activeRuns.values()).map((active) => active.run);
+  }
+
+  subscribeRuns(listener: () => void): () => void {
+    this.runListeners.add(listener);
+    return () => this.runListeners.delete(listener);
+  }
+
+  cancelRun(runId: string): void {
+    const active = this.activeRuns.get(runId);
+    if (!active) return;
+    const { name } = active.run.descriptor;
+    active.controller.abort(new ScrippetAbortError("cancelled", `Scrippet "${name}" was cancelled.`));
+  }
+
+  /** Show captured console output for a scrippet, optionally limited to one run. */
+  showOutput(id: string, runId?: string): void {
+    const descriptor = this.descriptorsById.get(id);
+    const name = descriptor?.name ?? id;
+    const heading = runId ? `Output: ${name} (run ${runId})` : `Output: ${name}`;
+    new RunOutputModal(this.plugin.app, heading, this.output.get(this.getOutputId(id), runId)).open();
+  }
+
+  hasOutput(id: string, runId?: string): boolean {
+    return this.output.has(this.getOutputId(id), runId);
+  }
+
+  /** Values of a scrippet's declared `settings`, with defaults filled in. */
+  getScrippetSettings(descriptor: ScrippetDescriptor): Record<string, unknown> {
+    const stored = this.plugin.settings.scriptStates[descriptor.id]?.settings;
+    return resolveFieldValues(descriptor.metadata.settings ?? [], stored);
+  }
+
+  async updateScrippetSetting(descriptor: ScrippetDescriptor, name: string, value: unknown): Promise<void> {
+    const prefs = this.ensurePreference(descriptor.id, descriptor.path);
+    prefs.settings = { ...prefs.settings, [name]: value };
+    this.settingsDirty = true;
+    await this.flushSettings();
+  }
+
   getCommandId(id: string): string {
     return `${COMMAND_PREFIX}:${id}`;
   }
@@ -153,10 +351,8 @@ export class ScrippetManager {
     if (updated === source) return;
     await adapter.write(normalized, updated);
     this.invalidateCachedPath(normalized);
-    if (previousId !== newId) {
-      this.descriptorsById.delete(previousId);
-      this.instanceCache.delete(previousId);
-    }
+    // The refresh migrates per-id data when this file owned `previousId`; a duplicate shares its
+    // id with another scrippet, so it has nothing of its own to move.
     await this.refreshDescriptor(normalized);
     await this.flushSettings();
     this.updateLastScan();
@@ -171,9 +367,16 @@ export class ScrippetManager {
     return normalizePath(`${this.baseFolder}/${STARTUP_FOLDER}`);
   }
 
+  private get libraryFolder(): string {
+    return normalizePath(`${this.baseFolder}/${LIBRARY_FOLDER}`);
+  }
+
   private async performFullReload(options: { runStartup: boolean }): Promise<void> {
-    this.unregisterCommands();
-    this.instanceCache.clear();
+    const previousByPath = new Map(this.descriptorsByPath);
+    const loadedPaths = new Set(Array.from(this.instanceCache.values(), (loaded) => loaded.path));
+    this.deactivateDescriptors();
+    this.disposeInstances();
+    this.library.clear();
     this.descriptorsByPath.clear();
     this.descriptorsById.clear();
     this.errorMap.clear();
@@ -187,6 +390,10 @@ export class ScrippetManager {
     for (const descriptor of result.startup) {
       this.storeDescriptor(descriptor);
     }
+    for (const descriptor of this.descriptorsByPath.values()) {
+      const previous = previousByPath.get(descriptor.path);
+      if (previous && previous.id !== descriptor.id) await this.migrateId(previous, descriptor);
+    }
 
     this.errorMap.clear();
     for (const error of result.errors) {
@@ -196,8 +403,8 @@ export class ScrippetManager {
 
     this.updateLastScan();
 
-    for (const descriptor of this.lastScan.commands) {
-      if (descriptor.enabled) this.registerCommand(descriptor);
+    for (const descriptor of this.descriptorsByPath.values()) {
+      if (descriptor.enabled) this.activateDescriptor(descriptor, loadedPaths.has(descriptor.path));
     }
 
     await this.flushSettings();
@@ -212,45 +419,280 @@ export class ScrippetManager {
   private storeDescriptor(descriptor: ScrippetDescriptor): void {
     this.descriptorsByPath.set(descriptor.path, descriptor);
     this.descriptorsById.set(descriptor.id, descriptor);
+    descriptor.subcommands?.forEach((subcommand) => this.descriptorsById.set(subcommand.id, subcommand));
+  }
+
+  /** Drop the descriptors and registrations of a file's `commands` entries. */
+  private forgetSubcommands(descriptor: ScrippetDescriptor | undefined): void {
+    for (const subcommand of descriptor?.subcommands ?? []) {
+      this.descriptorsById.delete(subcommand.id);
+      this.deactivateDescriptor(subcommand.id);
+    }
+  }
+
+  /** Console output is captured per file, so a `commands` entry's output is under its file's id. */
+  private getOutputId(id: string): string {
+    return this.descriptorsById.get(id)?.parentId ?? id;
+  }
+
+  /** The file-level descriptor a `commands` entry belongs to, or the descriptor itself. */
+  private getOwner(descriptor: ScrippetDescriptor): ScrippetDescriptor {
+    if (!descriptor.parentId) return descriptor;
+    return this.descriptorsById.get(descriptor.parentId) ?? descriptor;
   }
 
-  private async executeDescriptor(descriptor: ScrippetDescriptor): Promise<void> {
+  private async executeDescriptor(
+    descriptor: ScrippetDescriptor,
+    options: ScrippetRunOptions = {},
+  ): Promise<void> {
     const prefs = this.ensurePreference(descriptor.id, descriptor.path);
+    const controller = new AbortController();
+    const context = createInvocationContext(this.plugin, descriptor, this.getState(descriptor), {
+      ...options,
+      signal: controller.signal,
+    });
+    const background = isBackgroundTrigger(context.trigger);
 
-    if (!prefs.enabled) {
-      new Notice(`Scrippet "${descriptor.name}" is disabled.`);
+    if (!prefs.enabled || !this.getOwner(descriptor).enabled) {
+      if (!background) new Notice(`Scrippet "${descriptor.name}" is disabled.`);
       return;
     }
 
-    if (this.shouldConfirmFirstRun(descriptor) && !prefs.hasRun) {
+    await this.withRunSlot(descriptor, background, () =>
+      this.runDescriptor(descriptor, prefs, options, context, controller),
+    );
+  }
+
+  private async runDescriptor(
+    descriptor: ScrippetDescriptor,
+    prefs: ScriptPreference,
+    options: ScrippetRunOptions,
+    context: ScrippetInvocationContext,
+    controller: AbortController,
+  ): Promise<void> {
+    const background = isBackgroundTrigger(context.trigger);
+    if (context.trigger === "uri" && descriptor.metadata.uri !== "allow") {
+      // Links can come from any app or note, so every run they start is confirmed.
+      const confirmed = await confirmUriRun(this.plugin.app, descriptor, options.args ?? {});
+      if (!confirmed) return;
+    } else if (this.shouldConfirmFirstRun(descriptor) && !prefs.hasRun) {
+      if (background) {
+        this.noticeApprovalNeeded(descriptor);
+        return;
+      }
       const confirmed = await confirmFirstRun(this.plugin.app, descriptor);
       if (!confirmed) return;
     }
 
-    let loaded: LoadedScrippet;
-    try {
-      loaded = await this.loadDescriptorInstance(descriptor);
-    } catch (error) {
-      this.recordLoadError(descriptor.path, error);
-      new Notice(
-        `Scrippet "${descriptor.name}" failed to load: ${(error as Error).message ?? String(error)}`,
-      );
-      return;
-    }
+    const args = await this.resolveParameters(descriptor, prefs, options);
+    if (!args) return;
+    context.args = args;
+    const owner = this.getOwner(descriptor);
+    const run = startRun(descriptor, context.trigger);
+    this.output.begin(owner.id, run.runId);
 
+    const loadState = { failed: false };
     try {
-      await loaded.instance.invoke(this.plugin);
+      const result = await this.invokeTracked(
+        async () => {
+          try {
+            return (await this.loadDescriptorInstance(owner)).instance;
+          } catch (error) {
+            loadState.failed = true;
+            throw error;
+          }
+        },
+        context,
+        run,
+        controller,
+      );
+      this.history.record(run);
       if (!prefs.hasRun) {
         prefs.hasRun = true;
         this.settingsDirty = true;
         await this.flushSettings();
       }
+      await this.deliverResult(context, result);
     } catch (error) {
+      this.history.record(run, error);
+      if (error instanceof ScrippetAbortError) {
+        new Notice(error.message);
+        return;
+      }
+      if (loadState.failed) {
+        this.recordLoadError(descriptor.path, error);
+        this.noticeFailure(
+          `Scrippet "${descriptor.name}" failed to load: ${(error as Error).message ?? String(error)}`,
+          owner.id,
+          run.runId,
+        );
+        return;
+      }
       console.error(`Scrippets: error invoking "${descriptor.name}"`, error);
-      new Notice(`Scrippet "${descriptor.name}" failed: ${(error as Error).message ?? error}`);
+      this.noticeFailure(
+        `Scrippet "${descriptor.name}" failed: ${(error as Error).message ?? error}`,
+        owner.id,
+        run.runId,
+      );
+    } finally {
+      this.output.end(owner.id, run.runId);
+      // Failed and timed-out runs count too, so catch-up does not retry them on every launch.
+      if (context.trigger === "schedule") {
+        prefs.lastRun = Date.now();
+        this.settingsDirty = true;
+        await this.flushSettings();
+        this.notify();
+      }
+    }
+  }
+
+  /**
+   * Apply the scrippet's concurrency policy around a run: `single` drops the run while another
+   * is in flight, `queue` waits for earlier runs to settle, and `parallel` starts right away.
+   */
+  private async withRunSlot(
+    descriptor: ScrippetDescriptor,
+    background: boolean,
+    task: () => Promise<void>,
+  ): Promise<void> {
+    const id = descriptor.id;
+    const policy = descriptor.metadata.concurrency ?? this.plugin.settings.defaultConcurrency;
+    if (policy === "single" && this.runSlots.has(id)) {
+      if (!background) new Notice(`Scrippet "${descriptor.name}" is already running.`);
+      return;
+    }
+
+    this.runSlots.set(id, (this.runSlots.get(id) ?? 0) + 1);
+    try {
+      if (policy !== "queue") {
+        await task();
+        return;
+      }
+      const previous = this.runQueues.get(id);
+      if (previous && !background) {
+        new Notice(`Scrippet "${descriptor.name}" is queued until its current run finishes.`);
+      }
+      const current = (previous ?? Promise.resolve()).then(task);
+      const tail = current.catch(() => undefined);
+      this.runQueues.set(id, tail);
+      try {
+        await current;
+      } finally {
+        if (this.runQueues.get(id) === tail) this.runQueues.delete(id);
+      }
+    } finally {
+      const remaining = (this.runSlots.get(id) ?? 1) - 1;
+      if (remaining > 0) this.runSlots.set(id, remaining);
+      else this.runSlots.delete(id);
     }
   }
 
+  /** Storage and settings belong to the file, so `commands` entries share them. */
+  private getState(descriptor: ScrippetDescriptor): ScrippetState {
+    const owner = this.getOwner(descriptor);
+    return { storage: this.storage.for(owner.id), settings: this.getScrippetSettings(owner) };
+  }
+
+  /**
+   * Load and invoke a scrippet while tracking the run as cancellable and enforcing its `@timeout`.
+   * Loading, including an async `onload`, counts towards the timeout, so a hanging hook cannot hold
+   * up the runs queued behind it.
+   */
+  private async invokeTracked(
+    load: () => ScrippetModule | Promise<ScrippetModule>,
+    context: ScrippetInvocationContext,
+    run: RunStart,
+    controller: AbortController,
+  ): Promise<unknown> {
+    const { timeout } = run.descriptor.metadata;
+    const timer =
+      timeout != null
+        ? window.setTimeout(() => {
+            const message = `Scrippet "${run.descriptor.name}" timed out after ${formatDuration(timeout)}.`;
+            controller.abort(new ScrippetAbortError("timeout", message));
+          }, timeout)
+        : null;
+    this.activeRuns.set(run.runId, { run, controller });
+    this.notifyRuns();
+    try {
+      const task = async () => this.callInvoke(await load(), run.descriptor, context);
+      return await raceAbort(task(), controller.signal);
+    } finally {
+      if (timer != null) window.clearTimeout(timer);
+      this.activeRuns.delete(run.runId);
+      this.notifyRuns();
+    }
+  }
+
+  /** Call the module's `invoke`, or the exported `commands` entry for one of the file's commands. */
+  private callInvoke(
+    instance: ScrippetModule,
+    descriptor: ScrippetDescriptor,
+    context: ScrippetInvocationContext,
+  ): unknown {
+    if (descriptor.commandKey == null) return instance.invoke?.(this.plugin, context);
+    const command = instance.commands?.[descriptor.commandKey];
+    if (typeof command?.invoke !== "function") {
+      throw new Error(`The file does not export commands["${descriptor.commandKey}"].invoke`);
+    }
+    return command.invoke(this.plugin, context);
+  }
+
+  /** Route a run's return value through the scrippet's `@output` mode, if it declares one. */
+  private async deliverResult(context: ScrippetInvocationContext, result: unknown): Promise<void> {
+    const mode = context.descriptor.metadata.output;
+    if (!mode) return;
+    try {
+      await deliverOutput(this.plugin.app, mode, context, result);
+    } catch (error) {
+      console.error(`Scrippets: failed to deliver output of "${context.descriptor.name}"`, error);
+      new Notice(`Scrippet "${context.descriptor.name}" output failed: ${(error as Error).message ?? String(error)}`);
+    }
+  }
+
+  private notifyRuns(): void {
+    this.runListeners.forEach((listener) => listener());
+  }
+
+  private async resolveParameters(
+    descriptor: ScrippetDescriptor,
+    prefs: ScriptPreference,
+    options: ScrippetRunOptions,
+  ): Promise<Record<string, unknown> | null> {
+    const supplied = options.args ?? {};
+    const fields = descriptor.metadata.params ?? [];
+    const missing = fields.filter((field) => supplied[field.name] === undefined);
+    if (missing.length > 0 && !isBackgroundTrigger(options.trigger ?? "command")) {
+      const initial = resolveFieldValues(missing, prefs.lastParams);
+      const values = await promptForParameters(this.plugin.app, descriptor, missing, initial);
+      if (!values) return null;
+      prefs.lastParams = { ...prefs.lastParams, ...values };
+      this.settingsDirty = true;
+      await this.flushSettings();
+    }
+    return { ...resolveFieldValues(fields, prefs.lastParams), ...supplied };
+  }
+
+  /** Failure notice with a shortcut to the run's console output when it logged anything. */
+  private noticeFailure(message: string, id: string, runId: string): void {
+    if (!this.hasOutput(id, runId)) {
+      new Notice(message);
+      return;
+    }
+    const fragment = createFragment((root) => {
+      root.createDiv({ text: message });
+      const button = root.createEl("button", { text: "Show output", cls: "scrippet-notice-button" });
+      button.addEventListener("click", () => this.showOutput(id, runId));
+    });
+    new Notice(fragment, 10_000);
+  }
+
+  private noticeApprovalNeeded(descriptor: ScrippetDescriptor): void {
+    if (this.approvalNotices.has(descriptor.id)) return;
+    this.approvalNotices.add(descriptor.id);
+    new Notice(`Run "${descriptor.name}" once manually to approve it before it runs automatically.`);
+  }
+
   private ensurePreference(id: string, path: string): ScriptPreference {
     const scriptStates = this.plugin.settings.scriptStates;
     const idKey = id;
@@ -289,6 +731,161 @@ export class ScrippetManager {
     const adapter = this.plugin.app.vault.adapter;
     await ensureFolder(adapter, this.baseFolder);
     await ensureFolder(adapter, this.startupFolder);
+    await ensureFolder(adapter, this.libraryFolder);
+  }
+
+  /**
+   * Register a descriptor's commands and triggers. Files that exported `onload` when they were last
+   * loaded, or whose instance was loaded before an edit or reload (`reload`), are loaded right away
+   * so their hooks do not wait for the next run.
+   */
+  private activateDescriptor(descriptor: ScrippetDescriptor, reload = false): void {
+    this.deactivateDescriptor(descriptor.id);
+    // A file that declares `commands` registers those instead of a command of its own.
+    if (descriptor.kind === "command" && !descriptor.subcommands) {
+      this.registerCommand(descriptor);
+      this.registerRibbon(descriptor);
+      this.registerMenus(descriptor);
+    }
+    this.registerTriggers(descriptor);
+    this.registerSchedule(descriptor);
+    for (const subcommand of descriptor.subcommands ?? []) {
+      if (subcommand.enabled) this.activateDescriptor(subcommand);
+      else this.deactivateDescriptor(subcommand.id);
+    }
+    const prefs = this.plugin.settings.scriptStates[descriptor.id];
+    if (!descriptor.parentId && (reload || prefs?.hasHooks) && this.canLoadInBackground(descriptor)) {
+      void this.loadInBackground(descriptor);
+    }
+  }
+
+  /**
+   * Only approved files load without a run, and startup files only while startup scrippets are
+   * allowed to run at launch.
+   */
+  private canLoadInBackground(descriptor: ScrippetDescriptor): boolean {
+    if (descriptor.kind === "startup" && !this.plugin.settings.runStartupOnLoad) return false;
+    const prefs = this.plugin.settings.scriptStates[descriptor.id];
+    return prefs?.hasRun === true || !this.shouldConfirmFirstRun(descriptor);
+  }
+
+  /** Load a scrippet outside a run; failures land in the error list like any other load error. */
+  private async loadInBackground(descriptor: ScrippetDescriptor): Promise<void> {
+    try {
+      await this.loadDescriptorInstance(descriptor);
+    } catch (error) {
+      console.error(`Scrippets: failed to load "${descriptor.name}"`, error);
+      this.recordLoadError(descriptor.path, error);
+    }
+  }
+
+  private deactivateDescriptor(id: string): void {
+    this.unregisterCommand(id);
+    const registration = this.registrations.get(id);
+    if (!registration) return;
+    this.registrations.delete(id);
+    this.plugin.removeChild(registration);
+  }
+
+  private deactivateDescriptors(): void {
+    this.unregisterCommands();
+    Array.from(this.registrations.keys()).forEach((id) => this.deactivateDescriptor(id));
+  }
+
+  private getRegistration(id: string): Component {
+    const existing = this.registrations.get(id);
+    if (existing) return existing;
+    const registration = this.plugin.addChild(new Component());
+    this.registrations.set(id, registration);
+    return registration;
+  }
+
+  private registerTriggers(descriptor: ScrippetDescriptor): void {
+    const triggers = descriptor.metadata.on ?? [];
+    if (triggers.length === 0) return;
+    const registration = this.getRegistration(descriptor.id);
+    const fire = debounce(
+      (event: ScrippetEventPayload) => {
+        void this.executeById(descriptor.id, { trigger: "event", event });
+      },
+      descriptor.metadata.debounce ?? DEFAULT_EVENT_DEBOUNCE,
+      true,
+    );
+    registration.register(() => fire.cancel());
+    for (const trigger of triggers) {
+      registration.registerEvent(subscribeToEvent(this.plugin.app, trigger, fire));
+    }
+  }
+
+  private registerSchedule(descriptor: ScrippetDescriptor): void {
+    const schedule = descriptor.metadata.schedule ? parseSchedule(descriptor.metadata.schedule) : null;
+    if (!schedule) return;
+    const { id } = descriptor;
+    const registration = this.getRegistration(id);
+    let timer: number | null = null;
+    let disposed = false;
+
+    const run = async () => {
+      await this.executeById(id, { trigger: "schedule" });
+      if (!disposed) arm(Date.now());
+    };
+    const arm = (from: number) => {
+      const next = nextOccurrence(schedule, from);
+      if (next == null) {
+        this.nextRuns.delete(id);
+        return;
+      }
+      this.nextRuns.set(id, next);
+      const delay = Math.min(Math.max(0, next - Date.now()), MAX_TIMER_DELAY);
+      timer = window.setTimeout(() => {
+        timer = null;
+        if (Date.now() < next) arm(from);
+        else void run();
+      }, delay);
+    };
+
+    registration.register(() => {
+      disposed = true;
+      if (timer != null) window.clearTimeout(timer);
+      this.nextRuns.delete(id);
+    });
+
+    const now = Date.now();
+    const lastRun = this.plugin.settings.scriptStates[id]?.lastRun;
+    const due = lastRun != null ? nextOccurrence(schedule, lastRun) : null;
+    if (due == null || due > now) {
+      arm(lastRun ?? now);
+    } else if (descriptor.metadata.catchUp) {
+      this.plugin.app.workspace.onLayoutReady(() => {
+        if (!disposed) void run();
+      });
+    } else {
+      arm(now);
+    }
+  }
+
+  /** Ribbon button for `@ribbon`; it lives on the descriptor's registration, so disabling removes it. */
+  private registerRibbon(descriptor: ScrippetDescriptor): void {
+    if (!descriptor.metadata.ribbon) return;
+    const { id, name } = descriptor;
+    const conditions = descriptor.metadata.when ?? [];
+    const button = this.plugin.addRibbonIcon(descriptor.metadata.icon ?? DEFAULT_RIBBON_ICON, name, () => {
+      if (!matchesConditions(this.plugin.app, conditions)) {
+        new Notice(`Scrippet "${name}" is not available here.`);
+        return;
+      }
+      void this.executeById(id, { trigger: "command" });
+    });
+    this.getRegistration(id).register(() => button.remove());
+  }
+
+  private registerMenus(descriptor: ScrippetDescriptor): void {
+    if (!descriptor.metadata.menu) return;
+    const registration = this.getRegistration(descriptor.id);
+    const refs = subscribeToMenus(this.plugin.app, descriptor, (menu, editor, view) => {
+      void this.executeById(descriptor.id, { trigger: "menu", menu, editor, view });
+    });
+    refs.forEach((ref) => registration.registerEvent(ref));
   }
 
   private registerCommand(descriptor: ScrippetDescriptor): void {
@@ -297,13 +894,38 @@ export class ScrippetManager {
       this.plugin.removeCommand(this.commands.get(descriptor.id)!);
     }
     this.commands.set(descriptor.id, commandId);
-    this.plugin.addCommand({
-      id: commandId,
-      name: descriptor.name,
-      callback: () => {
-        void this.executeById(descriptor.id);
-      },
-    });
+    this.plugin.addCommand(this.buildCommand(commandId, descriptor));
+  }
+
+  private buildCommand(commandId: string, descriptor: ScrippetDescriptor): Command {
+    const { editor: editorOnly, when } = descriptor.metadata;
+    const conditions = when ?? [];
+    const isAvailable = () => matchesConditions(this.plugin.app, conditions);
+    const command: Command = { id: commandId, name: descriptor.name };
+    if (descriptor.metadata.icon) command.icon = descriptor.metadata.icon;
+    if (descriptor.metadata.hotkeys) command.hotkeys = descriptor.metadata.hotkeys;
+
+    if (editorOnly) {
+      command.editorCheckCallback = (checking, editor, info) => {
+        if (!isAvailable()) return false;
+        if (!checking) {
+          const view = info instanceof MarkdownView ? info : null;
+          void this.executeById(descriptor.id, { trigger: "command", editor, view });
+        }
+        return true;
+      };
+    } else if (conditions.length > 0) {
+      command.checkCallback = (checking) => {
+        if (!isAvailable()) return false;
+        if (!checking) void this.executeById(descriptor.id, { trigger: "command" });
+        return true;
+      };
+    } else {
+      command.callback = () => {
+        void this.executeById(descriptor.id, { trigger: "command" });
+      };
+    }
+    return command;
   }
 
   private unregisterCommand(id: string): void {
@@ -325,48 +947,192 @@ export class ScrippetManager {
     for (const descriptor of descriptors) {
       const prefs = this.plugin.settings.scriptStates[descriptor.id];
       if (prefs && !prefs.enabled) continue;
-      try {
-        const loaded = await this.loadDescriptorInstance(descriptor);
-        await loaded.instance.invoke(this.plugin);
-        if (!prefs) {
-          this.plugin.settings.scriptStates[descriptor.id] = {
-            enabled: true,
-            hasRun: true,
-          };
-          this.settingsDirty = true;
-          updated = true;
-        } else if (!prefs.hasRun) {
-          prefs.hasRun = true;
-          this.settingsDirty = true;
-          updated = true;
+      await this.withRunSlot(descriptor, true, async () => {
+        const run = startRun(descriptor, "startup");
+        const controller = new AbortController();
+        this.output.begin(descriptor.id, run.runId);
+        try {
+          const context = createInvocationContext(this.plugin, descriptor, this.getState(descriptor), {
+            trigger: "startup",
+            args: resolveFieldValues(descriptor.metadata.params ?? [], prefs?.lastParams),
+            signal: controller.signal,
+          });
+          const load = async () => (await this.loadDescriptorInstance(descriptor)).instance;
+          const result = await this.invokeTracked(load, context, run, controller);
+          this.history.record(run);
+          await this.deliverResult(context, result);
+          if (!prefs) {
+            this.plugin.settings.scriptStates[descriptor.id] = {
+              enabled: true,
+              hasRun: true,
+            };
+            this.settingsDirty = true;
+            updated = true;
+          } else if (!prefs.hasRun) {
+            prefs.hasRun = true;
+            this.settingsDirty = true;
+            updated = true;
+          }
+        } catch (error) {
+          this.history.record(run, error);
+          if (error instanceof ScrippetAbortError) {
+            new Notice(error.message);
+            return;
+          }
+          this.recordLoadError(descriptor.path, error);
+          console.error(`Scrippets: startup scrippet failed for ${descriptor.name}`, error);
+          this.noticeFailure(
+            `Startup scrippet "${descriptor.name}" failed: ${(error as Error).message ?? String(error)}`,
+            descriptor.id,
+            run.runId,
+          );
+        } finally {
+          this.output.end(descriptor.id, run.runId);
         }
-      } catch (error) {
-        this.recordLoadError(descriptor.path, error);
-        console.error(`Scrippets: startup scrippet failed for ${descriptor.name}`, error);
-        new Notice(
-          `Startup scrippet "${descriptor.name}" failed: ${(error as Error).message ?? String(error)}`,
-        );
-      }
+      });
     }
     if (updated) {
       await this.flushSettings();
     }
   }
 
-  private async loadDescriptorInstance(descriptor: ScrippetDescriptor): Promise<LoadedScrippet> {
+  /**
+   * The file's instance, loading it first when needed. Concurrent callers share one load, and the
+   * instance is only cached once `onload` has settled, so no run sees it half set up.
+   */
+  private loadDescriptorInstance(descriptor: ScrippetDescriptor): Promise<LoadedScrippet> {
     const cached = this.instanceCache.get(descriptor.id);
-    if (cached) return cached;
-    const source = await this.readFile(descriptor.path, false);
-    const instance = loadScrippet(this.plugin, appendSourceUrl(source, descriptor.path));
-    const loaded: LoadedScrippet = {
-      ...descriptor,
-      instance,
-    };
-    this.instanceCache.set(descriptor.id, loaded);
-    this.errorMap.delete(descriptor.path);
-    this.updateLastScan();
-    this.notify();
-    return loaded;
+    if (cached) return Promise.resolve(cached);
+    const pending = this.pendingLoads.get(descriptor.id);
+    if (pending) return pending;
+
+    const load: Promise<LoadedScrippet> = this.instantiate(descriptor)
+      .then(async (loaded) => {
+        if (this.pendingLoads.get(descriptor.id) !== load) {
+          // Disposed while loading, because the file changed or was disabled.
+          this.plugin.removeChild(loaded.component);
+          throw new Error(`Scrippet "${descriptor.name}" changed while it was loading`);
+        }
+        this.instanceCache.set(descriptor.id, loaded);
+        this.errorMap.delete(descriptor.path);
+        this.applyExportedCommands(descriptor, loaded.instance);
+        await this.rememberHooks(descriptor, loaded.instance);
+        this.updateLastScan();
+        this.notify();
+        return loaded;
+      })
+      .finally(() => {
+        if (this.pendingLoads.get(descriptor.id) === load) this.pendingLoads.delete(descriptor.id);
+      });
+    this.pendingLoads.set(descriptor.id, load);
+    return load;
+  }
+
+  /** Evaluate the file and run its `onload`, without caching the result. */
+  private async instantiate(descriptor: ScrippetDescriptor): Promise<LoadedScrippet> {
+    const source = await this.compileSource(descriptor.path, await this.readFile(descriptor.path, false));
+    await this.library.preload(descriptor.path, source);
+    const globals = { console: this.output.createConsole(descriptor.id), helpers: this.helpers };
+    const instance = loadScrippet(this.plugin, appendSourceUrl(source, descriptor.path), {
+      ...globals,
+      require: this.library.createRequire(this.plugin, descriptor.path, globals),
+    });
+    const component = this.plugin.addChild(new Component());
+    component.register(() => {
+      try {
+        instance.onunload?.();
+      } catch (error) {
+        console.error(`Scrippets: onunload failed for "${descriptor.name}"`, error);
+      }
+    });
+    try {
+      await instance.onload?.({
+        plugin: this.plugin,
+        app: this.plugin.app,
+        component,
+        descriptor,
+        storage: this.storage.for(descriptor.id),
+      });
+    } catch (error) {
+      this.plugin.removeChild(component);
+      throw error;
+    }
+    return { ...descriptor, instance, component };
+  }
+
+  /** Note whether the file exports `onload`, so it is loaded on activation from now on. */
+  private async rememberHooks(descriptor: ScrippetDescriptor, instance: ScrippetModule): Promise<void> {
+    const prefs = this.ensurePreference(descriptor.id, descriptor.path);
+    const hasHooks = typeof instance.onload === "function";
+    if ((prefs.hasHooks ?? false) === hasHooks) return;
+    prefs.hasHooks = hasHooks;
+    this.settingsDirty = true;
+    await this.flushSettings();
+  }
+
+  /**
+   * Register the exported `commands` entries the metadata does not declare, and let the exported map
+   * rename the file's commands or change their icon and hotkeys. Undeclared entries are remembered
+   * in the file's preferences, so they are registered again before the file loads next time.
+   */
+  private applyExportedCommands(descriptor: ScrippetDescriptor, instance: ScrippetModule): void {
+    const declared = new Set((descriptor.metadata.commands ?? []).map((command) => command.key));
+    const exported: ScrippetCommandDefinition[] = [];
+    for (const [key, command] of Object.entries(instance.commands ?? {})) {
+      if (declared.has(key)) continue;
+      exported.push({
+        key,
+        name: nonEmptyString(command.name) ?? key,
+        icon: nonEmptyString(command.icon),
+        hotkeys: command.hotkey != null ? parseHotkeys(command.hotkey) : undefined,
+      });
+    }
+    const prefs = this.ensurePreference(descriptor.id, descriptor.path);
+    if (JSON.stringify(prefs.exportedCommands ?? []) !== JSON.stringify(exported)) {
+      prefs.exportedCommands = exported.length > 0 ? exported : undefined;
+      this.settingsDirty = true;
+      this.rebuildSubcommands(descriptor);
+    }
+
+    const byKey = new Map((descriptor.subcommands ?? []).map((subcommand) => [subcommand.commandKey, subcommand]));
+    for (const [key, command] of Object.entries(instance.commands ?? {})) {
+      const subcommand = byKey.get(key);
+      if (!subcommand) continue;
+      const name = nonEmptyString(command.name) ?? subcommand.name;
+      const icon = nonEmptyString(command.icon) ?? subcommand.metadata.icon;
+      const hotkeys = command.hotkey != null ? parseHotkeys(command.hotkey) : subcommand.metadata.hotkeys;
+      const metadata = { ...subcommand.metadata, name, icon, hotkeys };
+      if (JSON.stringify(metadata) === JSON.stringify(subcommand.metadata)) continue;
+      subcommand.name = name;
+      subcommand.metadata = metadata;
+      if (this.commands.has(subcommand.id)) this.activateDescriptor(subcommand);
+    }
+  }
+
+  /** Replace a stored file's command entries after the set of exported commands changed. */
+  private rebuildSubcommands(descriptor: ScrippetDescriptor): void {
+    this.forgetSubcommands(descriptor);
+    const { subcommands, conflicts } = this.createSubcommands(descriptor, (subId) => {
+      const other = this.descriptorsById.get(subId);
+      return other != null && other.path !== descriptor.path;
+    });
+    descriptor.subcommands = subcommands.length > 0 ? subcommands : undefined;
+    this.storeDescriptor(descriptor);
+    if (conflicts.length > 0) this.errorMap.set(descriptor.path, conflicts.join("; "));
+    if (descriptor.enabled) this.activateDescriptor(descriptor);
+  }
+
+  private disposeInstance(id: string): void {
+    this.pendingLoads.delete(id);
+    const loaded = this.instanceCache.get(id);
+    if (!loaded) return;
+    this.instanceCache.delete(id);
+    this.plugin.removeChild(loaded.component);
+  }
+
+  private disposeInstances(): void {
+    this.pendingLoads.clear();
+    Array.from(this.instanceCache.keys()).forEach((id) => this.disposeInstance(id));
   }
 
   private recordLoadError(path: string, error: unknown): void {
@@ -376,7 +1142,10 @@ export class ScrippetManager {
   }
 
   private async scanScrippets(): Promise<ScrippetScanResult> {
-    const commandFiles = await this.listScriptFiles(this.baseFolder, (path) => !isWithin(path, this.startupFolder));
+    const commandFiles = await this.listScriptFiles(
+      this.baseFolder,
+      (path) => !isWithin(path, this.startupFolder) && !isWithin(path, this.libraryFolder),
+    );
     const startupFiles = await this.listScriptFiles(this.startupFolder);
 
     const errors: ScrippetLoadError[] = [];
@@ -419,6 +1188,7 @@ export class ScrippetManager {
   ): Promise<ScrippetDescriptor | null> {
     try {
       const src = await this.readFile(path);
+      await this.compileSource(path, src);
       const { metadata } = parseScrippetMetadata(src);
       const id = toIdentifier(path, metadata);
       if (!id) {
@@ -449,6 +1219,10 @@ export class ScrippetManager {
         headerSnippet: buildHeaderSnippet(src),
         modified,
       };
+      const { subcommands, conflicts } = this.createSubcommands(descriptor, (subId) => processedIds.has(subId));
+      subcommands.forEach((subcommand) => processedIds.add(subcommand.id));
+      conflicts.forEach((message) => errors.push({ path, message }));
+      if (subcommands.length > 0) descriptor.subcommands = subcommands;
       return descriptor;
     } catch (error) {
       errors.push({ path, message: (error as Error).message ?? String(error) });
@@ -456,6 +1230,53 @@ export class ScrippetManager {
     }
   }
 
+  /**
+   * Descriptors for the commands a file declares in its `commands` metadata, followed by those its
+   * exported `commands` map added when it was last loaded. They inherit the file's metadata apart
+   * from its triggers and schedule, which stay with the file.
+   */
+  private createSubcommands(
+    parent: ScrippetDescriptor,
+    isTaken: (id: string) => boolean,
+  ): { subcommands: ScrippetDescriptor[]; conflicts: string[] } {
+    const subcommands: ScrippetDescriptor[] = [];
+    const conflicts: string[] = [];
+    const declared = parent.metadata.commands ?? [];
+    const exported = (this.plugin.settings.scriptStates[parent.id]?.exportedCommands ?? []).filter(
+      (command) => !declared.some((entry) => entry.key === command.key),
+    );
+    for (const command of [...declared, ...exported]) {
+      const id = `${parent.id}/${slugify(command.key)}`;
+      if (isTaken(id) || subcommands.some((subcommand) => subcommand.id === id)) {
+        conflicts.push(`Duplicate command id "${id}"`);
+        continue;
+      }
+      const preference = this.ensurePreference(id, parent.path);
+      subcommands.push({
+        ...parent,
+        id,
+        name: command.name,
+        description: undefined,
+        kind: "command",
+        metadata: {
+          ...parent.metadata,
+          name: command.name,
+          icon: command.icon,
+          ribbon: command.ribbon,
+          hotkeys: command.hotkeys,
+          on: undefined,
+          schedule: undefined,
+          catchUp: undefined,
+          commands: undefined,
+        },
+        enabled: preference.enabled,
+        parentId: parent.id,
+        commandKey: command.key,
+      });
+    }
+    return { subcommands, conflicts };
+  }
+
   private async listScriptFiles(folder: string, filter?: (path: string) => boolean): Promise<string[]> {
     const adapter = this.plugin.app.vault.adapter;
     try {
@@ -473,6 +1294,7 @@ export class ScrippetManager {
 
   private isAllowedExtension(path: string): boolean {
     const lower = normalizePath(path).toLowerCase();
+    if (isDeclarationPath(lower)) return false;
     return this.plugin.settings.allowedExtensions.some((ext) => lower.endsWith(ext.toLowerCase()));
   }
 
@@ -511,14 +1333,19 @@ export class ScrippetManager {
     this.queueChange({ type, path: file.path });
   }
 
+  /** Files in the scrippets folder, and modules required from elsewhere in the vault (`/Scripts/x`). */
   private isManagedPath(path: string): boolean {
     const normalized = normalizePath(path);
-    return isWithin(normalized, this.baseFolder) || isWithin(normalized, this.startupFolder);
+    if (isWithin(normalized, this.baseFolder) || isWithin(normalized, this.startupFolder)) return true;
+    return this.library.isModule(normalized);
   }
 
   private queueChange(change: QueuedChange): void {
     this.registerChange(change);
-    if (change.path) this.invalidateCachedPath(change.path);
+    if (change.path) {
+      this.invalidateCachedPath(change.path);
+      this.invalidateDependents(change.path);
+    }
 
     const now = Date.now();
     if (now - this.lastChangeAt < 500) {
@@ -594,8 +1421,9 @@ export class ScrippetManager {
     if (!descriptor) return;
     this.descriptorsByPath.delete(normalized);
     this.descriptorsById.delete(descriptor.id);
-    this.instanceCache.delete(descriptor.id);
-    this.unregisterCommand(descriptor.id);
+    this.forgetSubcommands(descriptor);
+    this.disposeInstance(descriptor.id);
+    this.deactivateDescriptor(descriptor.id);
     this.errorMap.delete(normalized);
     this.duplicates.delete(normalized);
   }
@@ -614,12 +1442,14 @@ export class ScrippetManager {
     }
 
     const existing = this.descriptorsByPath.get(normalized);
+    const wasLoaded = existing != null && this.instanceCache.has(existing.id);
+    this.forgetSubcommands(existing);
     try {
       const descriptor = await this.withReadCache(() => this.createDescriptor(normalized, kind));
       if (existing && existing.id !== descriptor.id) {
         this.descriptorsById.delete(existing.id);
-        this.instanceCache.delete(existing.id);
-        this.unregisterCommand(existing.id);
+        this.disposeInstance(existing.id);
+        this.deactivateDescriptor(existing.id);
       }
 
       const duplicate = this.descriptorsById.get(descriptor.id);
@@ -631,35 +1461,87 @@ export class ScrippetManager {
         return;
       }
 
-      this.descriptorsByPath.set(normalized, descriptor);
-      this.descriptorsById.set(descriptor.id, descriptor);
-      this.instanceCache.delete(descriptor.id);
+      if (existing && existing.id !== descriptor.id) await this.migrateId(existing, descriptor);
+      const { subcommands, conflicts } = this.createSubcommands(descriptor, (subId) => {
+        const other = this.descriptorsById.get(subId);
+        return other != null && other.path !== normalized;
+      });
+      if (subcommands.length > 0) descriptor.subcommands = subcommands;
+
+      this.storeDescriptor(descriptor);
+      this.disposeInstance(descriptor.id);
       this.errorMap.delete(normalized);
+      if (conflicts.length > 0) this.errorMap.set(normalized, conflicts.join("; "));
       this.duplicates.delete(normalized);
 
-      if (descriptor.kind === "command") {
-        if (descriptor.enabled) this.registerCommand(descriptor);
-        else this.unregisterCommand(descriptor.id);
-      }
+      if (descriptor.enabled) this.activateDescriptor(descriptor, wasLoaded);
+      else this.deactivateDescriptor(descriptor.id);
     } catch (error) {
       this.descriptorsByPath.delete(normalized);
       if (existing) {
         this.descriptorsById.delete(existing.id);
-        this.instanceCache.delete(existing.id);
-        this.unregisterCommand(existing.id);
+        this.disposeInstance(existing.id);
+        this.deactivateDescriptor(existing.id);
       }
       this.errorMap.set(normalized, (error as Error).message ?? String(error));
       this.duplicates.delete(normalized);
     }
   }
 
+  /**
+   * Carry per-id data over when a file's id changes, for the file and each of its `commands`:
+   * preferences, custom hotkeys, and storage. A notice lists what moved.
+   */
+  private async migrateId(previous: ScrippetDescriptor, descriptor: ScrippetDescriptor): Promise<void> {
+    const renames: [string, string][] = [[previous.id, descriptor.id]];
+    for (const subcommand of previous.subcommands ?? []) {
+      renames.push([subcommand.id, `${descriptor.id}${subcommand.id.slice(previous.id.length)}`]);
+    }
+
+    const { scriptStates } = this.plugin.settings;
+    const toCommandId = (id: string) => `${this.plugin.manifest.id}:${this.getCommandId(id)}`;
+    const migrated = new Set<string>();
+    for (const [from, to] of renames) {
+      const state = scriptStates[from];
+      if (state) {
+        scriptStates[to] = state;
+        delete scriptStates[from];
+        this.settingsDirty = true;
+        migrated.add("preferences");
+      }
+      if (await moveCustomHotkeys(this.plugin.app, toCommandId(from), toCommandId(to))) migrated.add("hotkeys");
+      if (this.storage.size(from) > 0) {
+        await this.storage.move(from, to);
+        migrated.add("storage");
+      }
+    }
+
+    descriptor.enabled = scriptStates[descriptor.id]?.enabled ?? descriptor.enabled;
+    for (const subcommand of descriptor.subcommands ?? []) {
+      subcommand.enabled = scriptStates[subcommand.id]?.enabled ?? subcommand.enabled;
+    }
+    if (migrated.size === 0) return;
+    new Notice(
+      `Scrippet id changed from "${previous.id}" to "${descriptor.id}". Moved ${Array.from(migrated).join(", ")}.`,
+    );
+  }
+
   private invalidateCachedPath(path: string): void {
     if (!path) return;
     const normalized = normalizePath(path);
     this.readCache.delete(normalized);
+    this.transpiler.invalidate(normalized);
+  }
+
+  /** Reload every scrippet that requires a changed file, so its next run sees the new code. */
+  private invalidateDependents(path: string): void {
+    for (const dependent of this.library.invalidate(path)) {
+      if (this.descriptorsByPath.has(dependent)) this.registerChange({ type: "changed", path: dependent });
+    }
   }
 
   private resolveKind(path: string): ScrippetKind | null {
+    if (isWithin(path, this.libraryFolder)) return null;
     if (isWithin(path, this.startupFolder)) return "startup";
     if (isWithin(path, this.baseFolder)) return "command";
     return null;
@@ -667,6 +1549,7 @@ export class ScrippetManager {
 
   private async createDescriptor(path: string, kind: ScrippetKind): Promise<ScrippetDescriptor> {
     const src = await this.readFile(path);
+    await this.compileSource(path, src);
     const { metadata } = parseScrippetMetadata(src);
     const id = toIdentifier(path, metadata);
     if (!id) throw new Error("Unable to derive scrippet id");
@@ -699,6 +1582,18 @@ export class ScrippetManager {
     }
   }
 
+  /**
+   * Turn a file's source into JavaScript the loader can evaluate: frontmatter is blanked out and
+   * TypeScript is transpiled (and cached by mtime); compile errors surface as load errors with
+   * their line and column.
+   */
+  private async compileSource(path: string, source: string): Promise<string> {
+    const script = stripFrontmatter(source);
+    if (!isTypeScriptPath(path)) return script;
+    const normalized = normalizePath(path);
+    return this.transpiler.transpile(normalized, script, await this.getModifiedTime(normalized));
+  }
+
   private async readFile(path: string, useCache = true): Promise<string> {
     const normalized = normalizePath(path);
     if (useCache && this.cacheActive) {
@@ -771,13 +1666,14 @@ function isWithin(path: string, folder: string): boolean {
   return path === normalizedFolder || path.startsWith(prefix);
 }
 
-function sortByName(a: ScrippetDescriptor, b: ScrippetDescriptor): number {
-  return a.name.localeCompare(b.name);
+function isBackgroundTrigger(trigger: ScrippetTrigger): boolean {
+  return BACKGROUND_TRIGGERS.includes(trigger);
 }
 
-function appendSourceUrl(source: string, path: string): string {
-  const normalized = normalizePath(path);
-  const marker = "//# sourceURL=";
-  if (source.includes(marker)) return source;
-  return `${source}\n${marker}<vault>/${normalized}`;
+function nonEmptyString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function sortByName(a: ScrippetDescriptor, b: ScrippetDescriptor): number {
+  return a.name.localeCompare(b.name);
 }
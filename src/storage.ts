@@ -0,0 +1,111 @@
+import type { ScrippetHost } from "./scrippet-manager";
+
+/** Persistent key/value store for one scrippet, exposed as `ctx.storage`. */
+export interface ScrippetStorage {
+  /** Stored value, or `undefined`; returns a copy, so call `set` to persist changes. */
+  get<T = unknown>(key: string): T | undefined;
+  /**
+   * Store a JSON-serialisable value; `undefined` deletes the key. Values are stored as JSON, so a
+   * `Date` comes back as its ISO string and a `Map` or `Set` as an empty object. Throws for values
+   * JSON cannot represent, such as functions, bigints, `undefined` members, and circular references.
+   */
+  set(key: string, value: unknown): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): string[];
+}
+
+/** Per-scrippet storage kept in plugin data under `settings.storage`, namespaced by scrippet id. */
+export class ScrippetStorageStore {
+  private readonly plugin: ScrippetHost;
+
+  constructor(plugin: ScrippetHost) {
+    this.plugin = plugin;
+  }
+
+  for(id: string): ScrippetStorage {
+    return {
+      get: <T>(key: string) => {
+        const value = this.plugin.settings.storage[id]?.[key];
+        return value === undefined ? undefined : (structuredClone(value) as T);
+      },
+      set: async (key, value) => {
+        if (value === undefined) {
+          await this.remove(id, key);
+          return;
+        }
+        const problem = findUnserialisable(value, "value", new Set());
+        if (problem) throw new Error(`Cannot store "${key}": value is not JSON-serialisable (${problem})`);
+        const entries = (this.plugin.settings.storage[id] ??= {});
+        entries[key] = JSON.parse(JSON.stringify(value)) as unknown;
+        await this.plugin.saveSettings();
+      },
+      delete: (key) => this.remove(id, key),
+      keys: () => Object.keys(this.plugin.settings.storage[id] ?? {}),
+    };
+  }
+
+  /** Approximate stored size in bytes. */
+  size(id: string): number {
+    const entries = this.plugin.settings.storage[id];
+    if (!entries) return 0;
+    return new Blob([JSON.stringify(entries)]).size;
+  }
+
+  async clear(id: string): Promise<void> {
+    if (!(id in this.plugin.settings.storage)) return;
+    delete this.plugin.settings.storage[id];
+    await this.plugin.saveSettings();
+  }
+
+  /** Carry stored data over to a scrippet's new id. */
+  async move(previousId: string, newId: string): Promise<void> {
+    const { storage } = this.plugin.settings;
+    const entries = storage[previousId];
+    if (!entries || previousId === newId) return;
+    storage[newId] = { ...(storage[newId] ?? {}), ...entries };
+    delete storage[previousId];
+    await this.plugin.saveSettings();
+  }
+
+  private async remove(id: string, key: string): Promise<void> {
+    const entries = this.plugin.settings.storage[id];
+    if (!entries || !(key in entries)) return;
+    delete entries[key];
+    if (Object.keys(entries).length === 0) delete this.plugin.settings.storage[id];
+    await this.plugin.saveSettings();
+  }
+}
+
+/**
+ * Describe the first member JSON would reject or silently drop, or return null when `value`
+ * round-trips. Members with `toJSON`, such as dates, are checked as what they serialise to.
+ */
+function findUnserialisable(value: unknown, path: string, ancestors: Set<object>): string | null {
+  if (value !== null && typeof value === "object" && "toJSON" in value && typeof value.toJSON === "function") {
+    value = (value.toJSON as () => unknown)();
+  }
+  switch (typeof value) {
+    case "undefined":
+      return `${path} is undefined`;
+    case "bigint":
+    case "function":
+    case "symbol":
+      return `${path} is a ${typeof value}`;
+    case "number":
+      return Number.isFinite(value) ? null : `${path} is ${value}`;
+    case "object": {
+      if (value === null) return null;
+      if (ancestors.has(value)) return `${path} is a circular reference`;
+      ancestors.add(value);
+      for (const [key, member] of Object.entries(value)) {
+        const memberPath = Array.isArray(value) ? `${path}[${key}]` : `${path}.${key}`;
+        const problem = findUnserialisable(member, memberPath, ancestors);
+        if (problem) return problem;
+      }
+      ancestors.delete(value);
+      return null;
+    }
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,241 @@
+import { normalizePath, type DataAdapter } from "obsidian";
+
+export const TYPE_DEFINITIONS_FILE = "scrippets.d.ts";
+export const JSCONFIG_FILE = "jsconfig.json";
+
+/**
+ * Write editor support files into the scrippets folder: `scrippets.d.ts` is always replaced, while
+ * an existing `jsconfig.json` is left alone so local tweaks survive regeneration.
+ */
+export async function writeTypeDefinitions(adapter: DataAdapter, folder: string, version: string): Promise<void> {
+  await adapter.write(normalizePath(`${folder}/${TYPE_DEFINITIONS_FILE}`), buildTypeDefinitions(version));
+  const jsconfig = normalizePath(`${folder}/${JSCONFIG_FILE}`);
+  if (!(await adapter.exists(jsconfig))) await adapter.write(jsconfig, buildJsConfig());
+}
+
+/**
+ * Keep in sync with the public shapes in `types.ts` and the globals the loader injects;
+ * `npm run check` compares the two with `scripts/check-type-definitions.mjs`.
+ */
+export function buildTypeDefinitions(version: string): string {
+  return `// Generated by Scrippets ${version}. This file is rewritten when the plugin updates; do not edit it.
+// Install the \`obsidian\` package next to this file (npm install obsidian) for the full Obsidian API.
+import type {
+  App,
+  Component,
+  Editor,
+  Hotkey,
+  MarkdownView,
+  Notice as ObsidianNotice,
+  Plugin,
+  TAbstractFile,
+  TFile,
+  TFolder,
+} from "obsidian";
+
+declare global {
+  type ScrippetTrigger = "command" | "settings" | "startup" | "event" | "schedule" | "menu" | "uri" | "codeblock";
+
+  type ScrippetMenuTarget = "file" | "folder" | "editor" | "files";
+
+  type ScrippetEventName =
+    | "file-open"
+    | "active-leaf-change"
+    | "layout-change"
+    | "editor-change"
+    | "vault-create"
+    | "vault-modify"
+    | "vault-delete"
+    | "vault-rename";
+
+  interface ScrippetFieldDefinition {
+    name: string;
+    type: "string" | "number" | "boolean" | "dropdown" | "file" | "folder";
+    label?: string;
+    description?: string;
+    default?: unknown;
+    options?: string[];
+  }
+
+  interface ScrippetMetadata {
+    id?: string;
+    name?: string;
+    desc?: string;
+    description?: string;
+    editor?: boolean;
+    /** Alternatives for when the command is available; it is when every condition of any one holds. */
+    when?: string[][];
+    params?: ScrippetFieldDefinition[];
+    on?: { event: ScrippetEventName; glob?: string }[];
+    debounce?: number;
+    schedule?: string;
+    catchUp?: boolean;
+    timeout?: number;
+    concurrency?: "single" | "queue" | "parallel";
+    output?: "notice" | "modal" | "insert" | "clipboard" | "new-note";
+    settings?: ScrippetFieldDefinition[];
+    commands?: { key: string; name: string; icon?: string; ribbon?: boolean; hotkeys?: Hotkey[] }[];
+    icon?: string;
+    ribbon?: boolean;
+    hotkeys?: Hotkey[];
+    menu?: ScrippetMenuTarget[];
+    menuExtensions?: string[];
+    uri?: "confirm" | "allow";
+    /** Other directives, kept as written. */
+    [key: string]: unknown;
+  }
+
+  interface ScrippetDescriptor {
+    id: string;
+    name: string;
+    description?: string;
+    path: string;
+    kind: "command" | "startup";
+    metadata: ScrippetMetadata;
+    enabled: boolean;
+    /** For an entry of a file's \`commands\`: id of the file's descriptor. */
+    parentId?: string;
+    commandKey?: string;
+  }
+
+  interface ScrippetEventPayload {
+    name: ScrippetEventName;
+    file: TAbstractFile | null;
+    /** Previous path for \`vault-rename\`. */
+    oldPath?: string;
+  }
+
+  interface ScrippetMenuPayload {
+    target: ScrippetMenuTarget;
+    /** The clicked file or folder, the selected files for \`files\`, or the edited file for \`editor\`. */
+    files: TAbstractFile[];
+  }
+
+  /** Persistent key/value storage for one scrippet. */
+  interface ScrippetStorage {
+    /** Stored value, or undefined; returns a copy, so call \`set\` to persist changes. */
+    get<T = unknown>(key: string): T | undefined;
+    /**
+     * Store a JSON-serialisable value; \`undefined\` deletes the key. Values are stored as JSON, so a
+     * \`Date\` comes back as its ISO string and a \`Map\` or \`Set\` as an empty object. Throws for values
+     * JSON cannot represent, such as functions, bigints, \`undefined\` members, and circular references.
+     */
+    set(key: string, value: unknown): Promise<void>;
+    delete(key: string): Promise<void>;
+    keys(): string[];
+  }
+
+  /** Second argument of \`invoke\`. */
+  interface ScrippetInvocationContext {
+    plugin: Plugin;
+    app: App;
+    descriptor: ScrippetDescriptor;
+    trigger: ScrippetTrigger;
+    /** Active file when the run started, if any. */
+    file: TFile | null;
+    view: MarkdownView | null;
+    editor: Editor | null;
+    /** Current editor selection, or an empty string. */
+    selection: string;
+    args: Record<string, unknown>;
+    /** Event that started the run when \`trigger\` is \`event\`. */
+    event?: ScrippetEventPayload;
+    /** What was clicked when \`trigger\` is \`menu\`. */
+    menu?: ScrippetMenuPayload;
+    /** Aborted when the run is cancelled or exceeds its \`@timeout\`. */
+    signal: AbortSignal;
+    storage: ScrippetStorage;
+    /** Values of the scrippet's declared \`settings\`, with defaults filled in. */
+    settings: Record<string, unknown>;
+  }
+
+  /** Argument of \`onload\`. */
+  interface ScrippetLifecycleContext {
+    plugin: Plugin;
+    app: App;
+    /** Everything registered on this component is released when the scrippet unloads. */
+    component: Component;
+    descriptor: ScrippetDescriptor;
+    storage: ScrippetStorage;
+  }
+
+  /**
+   * An entry of the exported \`commands\` map. Keys declared under \`commands\` in the metadata are
+   * registered before the file loads; other keys are registered once it has loaded.
+   */
+  interface ScrippetModuleCommand {
+    /** Replaces the declared name once the file has loaded; undeclared entries default to their key. */
+    name?: string;
+    icon?: string;
+    /** Default hotkeys in the \`@hotkey\` format, such as \`Mod+Shift+K\`. */
+    hotkey?: string | string[];
+    invoke(plugin: Plugin, ctx: ScrippetInvocationContext): unknown;
+  }
+
+  /** What a scrippet file exports: an object or class instance with any of these members. */
+  interface ScrippetModule {
+    /** The return value is handed to the \`@output\` mode, if any. */
+    invoke?(plugin: Plugin, ctx: ScrippetInvocationContext): unknown;
+    commands?: Record<string, ScrippetModuleCommand>;
+    onload?(ctx: ScrippetLifecycleContext): void | Promise<unknown>;
+    onunload?(): void;
+  }
+
+  interface ScrippetProgress {
+    /** Report progress; \`value\` counts towards the \`total\` given to \`progress()\`. */
+    update(value: number, message?: string): void;
+    /** Hide the progress notice, optionally replacing it with a short final message. */
+    done(message?: string): void;
+  }
+
+  /** Helper API available as the \`scrippets\` global. */
+  interface ScrippetHelpers {
+    readonly version: number;
+    /** Read a note by vault path; \`.md\` is added when the path has no extension. */
+    readNote(path: string): Promise<string>;
+    /** Create or overwrite a note by vault path, creating missing parent folders. */
+    writeNote(path: string, content: string): Promise<TFile>;
+    /** Change a note's frontmatter in place; \`update\` mutates the parsed object. */
+    updateFrontmatter(path: string, update: (frontmatter: Record<string, unknown>) => void): Promise<void>;
+    /** Replace the selection in the active editor; returns false when no note is being edited. */
+    insertAtCursor(text: string): boolean;
+    /** Ask for a line of text; resolves to null when dismissed. */
+    prompt(message: string, options?: { placeholder?: string; value?: string }): Promise<string | null>;
+    /** Fuzzy-pick one of \`items\`; resolves to null when dismissed. */
+    suggest<T>(items: T[], options?: { placeholder?: string; getText?: (item: T) => string }): Promise<T | null>;
+    pickFile(options?: { placeholder?: string; extensions?: string[] }): Promise<TFile | null>;
+    pickFolder(options?: { placeholder?: string }): Promise<TFolder | null>;
+    /** Show a persistent notice with a progress bar until \`done()\` is called. */
+    progress(title: string, total?: number): ScrippetProgress;
+  }
+
+  const scrippets: ScrippetHelpers;
+  const plugin: Plugin;
+  const app: App;
+  const Notice: typeof ObsidianNotice;
+  const module: { exports: ScrippetModule | (new (plugin: Plugin) => ScrippetModule) | Record<string, unknown> };
+  let exports: Record<string, unknown>;
+  /** Load a file relative to this one (\`./lib/dates\`) or to the vault root (\`/Scripts/x\`). */
+  function require(path: string): unknown;
+}
+
+export {};
+`;
+}
+
+function buildJsConfig(): string {
+  const config = {
+    compilerOptions: {
+      target: "ES2021",
+      module: "ESNext",
+      moduleResolution: "Bundler",
+      lib: ["ES2021", "DOM"],
+      allowJs: true,
+      checkJs: true,
+      noEmit: true,
+      skipLibCheck: true,
+    },
+    include: ["**/*.js", "**/*.mjs", "**/*.cjs", "**/*.ts"],
+  };
+  return `${JSON.stringify(config, null, 2)}\n`;
+}
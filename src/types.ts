@@ -1,10 +1,112 @@
-import type { Plugin } from "obsidian";
+import type { App, Component, Editor, Hotkey, MarkdownView, Plugin, TAbstractFile, TFile } from "obsidian";
+import type { ScrippetStorage } from "./storage";
+
+/** Workspace condition a command requires before it is offered in the palette. */
+export type ScrippetCondition = "markdown-view" | "has-selection" | `file-ext:${string}`;
+
+export type ScrippetFieldType = "string" | "number" | "boolean" | "dropdown" | "file" | "folder";
+
+/** An input a scrippet declares in its metadata. */
+export interface ScrippetFieldDefinition {
+  name: string;
+  type: ScrippetFieldType;
+  label?: string;
+  description?: string;
+  default?: unknown;
+  /** Choices for `dropdown` fields. */
+  options?: string[];
+}
+
+export type ScrippetEventName =
+  | "file-open"
+  | "active-leaf-change"
+  | "layout-change"
+  | "editor-change"
+  | "vault-create"
+  | "vault-modify"
+  | "vault-delete"
+  | "vault-rename";
+
+/** Workspace or vault event that runs a scrippet, optionally limited to paths matching a glob. */
+export interface ScrippetEventTrigger {
+  event: ScrippetEventName;
+  glob?: string;
+}
+
+export interface ScrippetEventPayload {
+  name: ScrippetEventName;
+  file: TAbstractFile | null;
+  /** Previous path for `vault-rename`. */
+  oldPath?: string;
+}
+
+/** An entry of a file's `commands` metadata; its `invoke` comes from the module's `commands` export. */
+export interface ScrippetCommandDefinition {
+  /** Key in the exported `commands` map. */
+  key: string;
+  name: string;
+  icon?: string;
+  ribbon?: boolean;
+  hotkeys?: Hotkey[];
+}
+
+/** Context menu a scrippet adds an entry to. */
+export type ScrippetMenuTarget = "file" | "folder" | "editor" | "files";
+
+export interface ScrippetMenuPayload {
+  target: ScrippetMenuTarget;
+  /** The clicked file or folder, the selected files for `files`, or the edited file for `editor`. */
+  files: TAbstractFile[];
+}
+
+/** Whether runs from `obsidian://scrippets` links ask for confirmation first. */
+export type ScrippetUriPolicy = "confirm" | "allow";
+
+/** How overlapping runs of the same scrippet are handled. */
+export type ScrippetConcurrency = "single" | "queue" | "parallel";
+
+/** What happens to the value `invoke` returns. */
+export type ScrippetOutputMode = "notice" | "modal" | "insert" | "clipboard" | "new-note";
 
 export interface ScrippetMetadata {
   id?: string;
   name?: string;
   desc?: string;
   description?: string;
+  /** Register as an editor command that receives the active `Editor` and `MarkdownView`. */
+  editor?: boolean;
+  /** Alternatives for when the command is available; it is when every condition of any one holds. */
+  when?: ScrippetCondition[][];
+  /** Inputs prompted for before each run and passed in `ctx.args`. */
+  params?: ScrippetFieldDefinition[];
+  on?: ScrippetEventTrigger[];
+  /** Quiet period in milliseconds before an event trigger fires. */
+  debounce?: number;
+  /** Validated `@schedule` expression (interval, daily time, or cron). */
+  schedule?: string;
+  /** Run once at load when a scheduled run was missed while Obsidian was closed. */
+  catchUp?: boolean;
+  /** Abort runs that take longer than this many milliseconds. */
+  timeout?: number;
+  concurrency?: ScrippetConcurrency;
+  output?: ScrippetOutputMode;
+  /** User-editable options shown in the settings tab and passed in `ctx.settings`. */
+  settings?: ScrippetFieldDefinition[];
+  /** Commands registered from the file's exported `commands` map instead of a single command. */
+  commands?: ScrippetCommandDefinition[];
+  /** Lucide icon id for the command, its ribbon button, and the settings list. */
+  icon?: string;
+  /** Add a ribbon button that runs the command. */
+  ribbon?: boolean;
+  /** Default hotkeys for the command; hotkeys the user customises take priority. */
+  hotkeys?: Hotkey[];
+  /** Context menus that offer the command. */
+  menu?: ScrippetMenuTarget[];
+  /** Only offer menu entries for files with these extensions (lowercase, without the dot). */
+  menuExtensions?: string[];
+  uri?: ScrippetUriPolicy;
+  /** Other directives, kept as written. */
+  [key: string]: unknown;
 }
 
 export type ScrippetKind = "command" | "startup";
@@ -19,11 +121,27 @@ export interface ScrippetDescriptor {
   enabled: boolean;
   headerSnippet: string;
   modified: number;
+  /** For an entry of a file's `commands`: id of the file's descriptor. */
+  parentId?: string;
+  /** For an entry of a file's `commands`: its key in the exported map. */
+  commandKey?: string;
+  /** Descriptors for the file's `commands`, each with its own id (`<file id>/<key>`) and preferences. */
+  subcommands?: ScrippetDescriptor[];
 }
 
 export interface ScriptPreference {
   enabled: boolean;
   hasRun: boolean;
+  /** Parameter values from the most recent prompt, used as the next defaults. */
+  lastParams?: Record<string, unknown>;
+  /** Timestamp of the most recent scheduled run. */
+  lastRun?: number;
+  /** Values for the scrippet's declared `settings`. */
+  settings?: Record<string, unknown>;
+  /** Whether the file exported `onload` when it was last loaded; such files load again on activation. */
+  hasHooks?: boolean;
+  /** Exported `commands` entries the metadata does not declare, as of the file's last load. */
+  exportedCommands?: ScrippetCommandDefinition[];
 }
 
 export interface ScrippetPluginSettings {
@@ -35,6 +153,13 @@ export interface ScrippetPluginSettings {
   allowedExtensions: string[];
   listSort: ScrippetListSort;
   trustedFolders: string[];
+  runHistory: ScrippetRunRecord[];
+  historyLimit: number;
+  defaultConcurrency: ScrippetConcurrency;
+  /** Plugin version that last wrote `scrippets.d.ts`; null until the user generates it. */
+  typesVersion: string | null;
+  /** `ctx.storage` contents, keyed by scrippet id. */
+  storage: Record<string, Record<string, unknown>>;
 }
 
 export const DEFAULT_SETTINGS: ScrippetPluginSettings = {
@@ -46,14 +171,107 @@ export const DEFAULT_SETTINGS: ScrippetPluginSettings = {
   allowedExtensions: [".js", ".mjs", ".cjs"],
   listSort: { field: "name", direction: "asc" },
   trustedFolders: [],
+  runHistory: [],
+  historyLimit: 200,
+  defaultConcurrency: "parallel",
+  typesVersion: null,
+  storage: {},
 };
 
+export interface ScrippetLifecycleContext {
+  plugin: Plugin;
+  app: App;
+  /** Child component of the plugin; everything registered on it is released when the scrippet unloads. */
+  component: Component;
+  descriptor: ScrippetDescriptor;
+  storage: ScrippetStorage;
+}
+
+/** Where a run was started from. */
+export type ScrippetTrigger =
+  | "command"
+  | "settings"
+  | "startup"
+  | "event"
+  | "schedule"
+  | "menu"
+  | "uri"
+  | "codeblock";
+
+export interface ScrippetRunOptions {
+  trigger?: ScrippetTrigger;
+  args?: Record<string, unknown>;
+  /** Editor supplied by an editor command callback; defaults to the active editor. */
+  editor?: Editor;
+  view?: MarkdownView | null;
+  event?: ScrippetEventPayload;
+  menu?: ScrippetMenuPayload;
+  signal?: AbortSignal;
+}
+
+export interface ScrippetInvocationContext {
+  plugin: Plugin;
+  app: App;
+  descriptor: ScrippetDescriptor;
+  trigger: ScrippetTrigger;
+  /** Active file when the run started, if any. */
+  file: TFile | null;
+  view: MarkdownView | null;
+  editor: Editor | null;
+  /** Current editor selection, or an empty string. */
+  selection: string;
+  args: Record<string, unknown>;
+  /** Event that started the run when `trigger` is `event`. */
+  event?: ScrippetEventPayload;
+  /** What was clicked when `trigger` is `menu`. */
+  menu?: ScrippetMenuPayload;
+  /** Aborted when the run is cancelled or exceeds its `@timeout`. */
+  signal: AbortSignal;
+  /** Persistent key/value storage for this scrippet. */
+  storage: ScrippetStorage;
+  /** Values of the scrippet's declared `settings`, with defaults filled in. */
+  settings: Record<string, unknown>;
+}
+
+/** An entry of a module's exported `commands` map. */
+export interface ScrippetModuleCommand {
+  /** Overrides the name declared in the file's `commands` metadata. */
+  name?: string;
+  icon?: string;
+  /** Default hotkeys, in the `@hotkey` format; replace the declared ones once the file has loaded. */
+  hotkey?: string | string[];
+  invoke: (plugin: Plugin, ctx: ScrippetInvocationContext) => unknown;
+}
+
 export interface ScrippetModule {
-  invoke: (plugin: Plugin) => void | Promise<unknown>;
+  /** The return value is handed to the `@output` mode, if any. */
+  invoke?: (plugin: Plugin, ctx: ScrippetInvocationContext) => unknown;
+  /** Commands by key; entries the metadata does not declare are registered once the file has loaded. */
+  commands?: Record<string, ScrippetModuleCommand>;
+  onload?: (ctx: ScrippetLifecycleContext) => void | Promise<unknown>;
+  onunload?: () => void;
 }
 
 export interface LoadedScrippet extends ScrippetDescriptor {
   instance: ScrippetModule;
+  component: Component;
+}
+
+export type ScrippetRunOutcome = "success" | "error" | "cancelled" | "timeout";
+
+export interface ScrippetRunRecord {
+  runId: string;
+  scrippetId: string;
+  name: string;
+  path: string;
+  trigger: ScrippetTrigger;
+  startedAt: number;
+  duration: number;
+  outcome: ScrippetRunOutcome;
+  error?: string;
+  stack?: string;
+  /** Line in the scrippet file where the error was raised, when the stack points into it. */
+  line?: number;
 }
 
 export interface ScrippetLoadError {
@@ -0,0 +1,60 @@
+import { transform } from "sucrase";
+
+/** Syntax error raised while stripping types, with the 1-based position it refers to. */
+export class ScrippetCompileError extends Error {
+  constructor(
+    readonly path: string,
+    readonly line: number,
+    readonly column: number,
+    reason: string,
+  ) {
+    super(`Line ${line}:${column}: ${reason}`);
+    this.name = "ScrippetCompileError";
+  }
+}
+
+/** `.ts` files are transpiled; declaration files are editor-only and never loaded. */
+export function isTypeScriptPath(path: string): boolean {
+  const lower = path.toLowerCase();
+  return lower.endsWith(".ts") && !lower.endsWith(".d.ts");
+}
+
+export function isDeclarationPath(path: string): boolean {
+  return path.toLowerCase().endsWith(".d.ts");
+}
+
+/**
+ * Strips TypeScript syntax from scrippet sources, keeping line numbers intact. Output is cached
+ * per path and modification time so unchanged files are only transpiled once.
+ */
+export class TypeScriptTranspiler {
+  private cache = new Map<string, { mtime: number; code: string }>();
+
+  transpile(path: string, source: string, mtime: number): string {
+    const cached = this.cache.get(path);
+    if (cached && cached.mtime === mtime) return cached.code;
+    const code = stripTypes(path, source);
+    this.cache.set(path, { mtime, code });
+    return code;
+  }
+
+  invalidate(path: string): void {
+    this.cache.delete(path);
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+}
+
+function stripTypes(path: string, source: string): string {
+  try {
+    return transform(source, { transforms: ["typescript"], disableESTransforms: true, filePath: path }).code;
+  } catch (error) {
+    const { loc, message } = error as { loc?: { line: number; column: number }; message?: string };
+    if (!loc) throw error;
+    // Sucrase reports "Error transforming <path>: <reason> (<line>:<column>)" with 0-based columns.
+    const reason = (message ?? "").replace(/^Error transforming [^:]*: /, "").replace(/ \(\d+:\d+\)$/, "");
+    throw new ScrippetCompileError(path, loc.line, loc.column + 1, reason);
+  }
+}
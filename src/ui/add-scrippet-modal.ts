@@ -81,6 +81,37 @@ const TEMPLATES: TemplateOption[] = [
 };
 
 module.exports = { invoke };
+`
+      );
+    },
+  },
+  {
+    id: "lifecycle",
+    label: "Lifecycle hooks",
+    description: "Registers long-lived handlers in onload(ctx) and cleans up in onunload().",
+    build: ({ name, id, description }) => {
+      const header = renderHeader(name, id, description);
+      return (
+        header +
+        `module.exports = class ${pascalCase(id)} {
+  onload(ctx) {
+    // Events, intervals, and DOM listeners registered on ctx.component are
+    // released automatically when the file changes or the scrippet is disabled.
+    ctx.component.registerEvent(
+      ctx.app.workspace.on("file-open", (file) => {
+        if (file) console.debug("${name}: opened", file.path);
+      }),
+    );
+  }
+
+  onunload() {
+    console.debug("${name} unloaded.");
+  }
+
+  async invoke(plugin) {
+    new Notice("${name} is active.");
+  }
+};
 `
       );
     },
@@ -0,0 +1,26 @@
+import { App, FuzzySuggestModal } from "obsidian";
+import type { RunStart } from "../run-history";
+import type { ScrippetManager } from "../scrippet-manager";
+
+export class CancelRunModal extends FuzzySuggestModal<RunStart> {
+  private readonly manager: ScrippetManager;
+
+  constructor(app: App, manager: ScrippetManager) {
+    super(app);
+    this.manager = manager;
+    this.setPlaceholder("Pick a running scrippet to cancel");
+  }
+
+  getItems(): RunStart[] {
+    return this.manager.runningRuns;
+  }
+
+  getItemText(run: RunStart): string {
+    const started = new Date(run.startedAt).toLocaleTimeString();
+    return `${run.descriptor.name} (${run.trigger}, started ${started})`;
+  }
+
+  onChooseItem(run: RunStart): void {
+    this.manager.cancelRun(run.runId);
+  }
+}
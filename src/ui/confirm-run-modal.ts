@@ -3,30 +3,61 @@ import type { ScrippetDescriptor } from "../types";
 import { applyModalAccessibility } from "./accessibility";
 
 export function confirmFirstRun(app: App, descriptor: ScrippetDescriptor): Promise<boolean> {
+  const message = `This is the first time running "${descriptor.name}". Only continue if you trust this code.`;
   return new Promise((resolve) => {
-    const modal = new ConfirmRunModal(app, descriptor, resolve);
+    const modal = new ConfirmRunModal(app, descriptor, message, resolve);
+    modal.open();
+  });
+}
+
+/** Confirm a run requested through an `obsidian://scrippets` link, showing the arguments it passes. */
+export function confirmUriRun(
+  app: App,
+  descriptor: ScrippetDescriptor,
+  args: Record<string, unknown>,
+): Promise<boolean> {
+  const message = `A link asks to run "${descriptor.name}". Only continue if you expected this.`;
+  return new Promise((resolve) => {
+    const modal = new ConfirmRunModal(app, descriptor, message, resolve, args);
+    modal.open();
+  });
+}
+
+/** Confirm running the code inside a `scrippet` block; the snippet shows the start of the code. */
+export function confirmInlineRun(app: App, descriptor: ScrippetDescriptor): Promise<boolean> {
+  const message = `A scrippet block in "${descriptor.path}" wants to run its code. Only continue if you trust this note.`;
+  return new Promise((resolve) => {
+    const modal = new ConfirmRunModal(app, descriptor, message, resolve);
     modal.open();
   });
 }
 
 class ConfirmRunModal extends Modal {
   private readonly descriptor: ScrippetDescriptor;
+  private readonly message: string;
+  private readonly args: Record<string, unknown> | undefined;
   private readonly resolver: (value: boolean) => void;
   private resolved = false;
   private cleanupAccessibility: (() => void) | null = null;
 
-  constructor(app: App, descriptor: ScrippetDescriptor, resolver: (value: boolean) => void) {
+  constructor(
+    app: App,
+    descriptor: ScrippetDescriptor,
+    message: string,
+    resolver: (value: boolean) => void,
+    args?: Record<string, unknown>,
+  ) {
     super(app);
     this.descriptor = descriptor;
+    this.message = message;
     this.resolver = resolver;
+    this.args = args;
   }
 
   onOpen(): void {
     this.modalEl.addClass("scrippet-confirm-modal");
     this.titleEl.setText("Run scrippet?");
-    this.contentEl.createEl("p", {
-      text: `This is the first time running "${this.descriptor.name}". Only continue if you trust this code.`,
-    });
+    this.contentEl.createEl("p", { text: this.message });
     this.contentEl.createEl("p", {
       text: "Scrippets can read and modify anything in your vault and run with the same permissions as Obsidian.",
       cls: "scrippet-confirm-warning",
@@ -35,6 +66,9 @@ class ConfirmRunModal extends Modal {
     const details = this.contentEl.createEl("div", { cls: "scrippet-run-details" });
     details.createEl("p", { text: `File: ${normalizePath(this.descriptor.path)}` });
     details.createEl("p", { text: `ID: ${this.descriptor.id}` });
+    for (const [name, value] of Object.entries(this.args ?? {})) {
+      details.createEl("p", { text: `${name}: ${JSON.stringify(value)}` });
+    }
 
     const snippetId = `scrippet-snippet-${Date.now()}`;
     const snippetWrapper = this.contentEl.createEl("div", { cls: "scrippet-snippet-wrapper" });
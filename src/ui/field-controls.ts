@@ -0,0 +1,72 @@
+import type { App, Setting } from "obsidian";
+import type { ScrippetFieldDefinition } from "../types";
+import { PathSuggest } from "./path-suggest";
+
+export function addFieldControl(
+  setting: Setting,
+  app: App,
+  field: ScrippetFieldDefinition,
+  value: unknown,
+  onChange: (value: unknown) => void,
+): void {
+  switch (field.type) {
+    case "boolean":
+      setting.addToggle((toggle) => toggle.setValue(Boolean(value)).onChange(onChange));
+      break;
+    case "number":
+      setting.addText((text) => {
+        text.inputEl.type = "number";
+        text.setValue(toInputValue(value)).onChange((raw) => {
+          const parsed = Number(raw);
+          onChange(raw.trim() === "" || Number.isNaN(parsed) ? undefined : parsed);
+        });
+      });
+      break;
+    case "dropdown":
+      setting.addDropdown((dropdown) => {
+        for (const option of field.options ?? []) dropdown.addOption(option, option);
+        dropdown.setValue(toInputValue(value)).onChange(onChange);
+      });
+      break;
+    case "file":
+    case "folder":
+      setting.addSearch((search) => {
+        new PathSuggest(app, search.inputEl, field.type === "file" ? "file" : "folder");
+        search
+          .setPlaceholder(field.type === "file" ? "Pick a file" : "Pick a folder")
+          .setValue(toInputValue(value))
+          .onChange(onChange);
+      });
+      break;
+    default:
+      setting.addText((text) => text.setValue(toInputValue(value)).onChange(onChange));
+  }
+}
+
+/** Merge field defaults with stored values; later sources win. */
+export function resolveFieldValues(
+  fields: ScrippetFieldDefinition[],
+  ...sources: (Record<string, unknown> | undefined)[]
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const field of fields) {
+    let value = field.default;
+    for (const source of sources) {
+      if (source && source[field.name] !== undefined) value = source[field.name];
+    }
+    values[field.name] = value ?? fallbackValue(field);
+  }
+  return values;
+}
+
+function toInputValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return "";
+}
+
+function fallbackValue(field: ScrippetFieldDefinition): unknown {
+  if (field.type === "boolean") return false;
+  if (field.type === "dropdown") return field.options?.[0];
+  return undefined;
+}
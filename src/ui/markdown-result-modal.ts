@@ -0,0 +1,67 @@
+import { App, Component, MarkdownRenderer, Modal, Notice, Setting } from "obsidian";
+import { applyModalAccessibility } from "./accessibility";
+
+/** Shows a scrippet's returned markdown, rendered like a note. */
+export class MarkdownResultModal extends Modal {
+  private readonly heading: string;
+  private readonly markdown: string;
+  private readonly sourcePath: string;
+  private component: Component | null = null;
+  private cleanupAccessibility: (() => void) | null = null;
+
+  constructor(app: App, heading: string, markdown: string, sourcePath: string) {
+    super(app);
+    this.heading = heading;
+    this.markdown = markdown;
+    this.sourcePath = sourcePath;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("scrippet-result-modal");
+    this.titleEl.setText(this.heading);
+
+    const resultId = `scrippet-result-${Date.now()}`;
+    const body = this.contentEl.createDiv({ cls: "scrippet-result markdown-rendered", attr: { id: resultId } });
+    this.component = new Component();
+    this.component.load();
+    void MarkdownRenderer.render(this.app, this.markdown, body, this.sourcePath, this.component);
+
+    const buttons = new Setting(this.contentEl);
+    buttons.addButton((btn) =>
+      btn.setButtonText("Copy").onClick(() => {
+        void this.copyMarkdown();
+      }),
+    );
+    buttons.addButton((btn) =>
+      btn
+        .setButtonText("Close")
+        .setCta()
+        .onClick(() => {
+          this.close();
+        }),
+    );
+
+    this.cleanupAccessibility = applyModalAccessibility(this, { describedBy: resultId });
+  }
+
+  onClose(): void {
+    if (this.cleanupAccessibility) {
+      this.cleanupAccessibility();
+      this.cleanupAccessibility = null;
+    }
+    this.component?.unload();
+    this.component = null;
+    this.contentEl.empty();
+  }
+
+  private async copyMarkdown(): Promise<void> {
+    try {
+      if (!navigator.clipboard) throw new Error("Clipboard API unavailable");
+      await navigator.clipboard.writeText(this.markdown);
+      new Notice("Output copied.");
+    } catch (error) {
+      console.error("Scrippets: clipboard write failed", error);
+      new Notice("Failed to copy output.");
+    }
+  }
+}
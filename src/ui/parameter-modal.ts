@@ -0,0 +1,92 @@
+import { App, Modal, Setting } from "obsidian";
+import type { ScrippetDescriptor, ScrippetFieldDefinition } from "../types";
+import { applyModalAccessibility } from "./accessibility";
+import { addFieldControl } from "./field-controls";
+
+export function promptForParameters(
+  app: App,
+  descriptor: ScrippetDescriptor,
+  fields: ScrippetFieldDefinition[],
+  initial: Record<string, unknown>,
+): Promise<Record<string, unknown> | null> {
+  return new Promise((resolve) => {
+    new ParameterModal(app, descriptor, fields, initial, resolve).open();
+  });
+}
+
+class ParameterModal extends Modal {
+  private readonly descriptor: ScrippetDescriptor;
+  private readonly fields: ScrippetFieldDefinition[];
+  private readonly values: Record<string, unknown>;
+  private readonly resolver: (value: Record<string, unknown> | null) => void;
+  private resolved = false;
+  private cleanupAccessibility: (() => void) | null = null;
+
+  constructor(
+    app: App,
+    descriptor: ScrippetDescriptor,
+    fields: ScrippetFieldDefinition[],
+    initial: Record<string, unknown>,
+    resolver: (value: Record<string, unknown> | null) => void,
+  ) {
+    super(app);
+    this.descriptor = descriptor;
+    this.fields = fields;
+    this.values = { ...initial };
+    this.resolver = resolver;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("scrippet-parameter-modal");
+    this.titleEl.setText(`Run ${this.descriptor.name}`);
+
+    for (const field of this.fields) {
+      const setting = new Setting(this.contentEl).setName(field.label ?? field.name);
+      if (field.description) setting.setDesc(field.description);
+      addFieldControl(setting, this.app, field, this.values[field.name], (value) => {
+        this.values[field.name] = value;
+      });
+    }
+
+    const buttons = new Setting(this.contentEl);
+    buttons.addButton((btn) =>
+      btn.setButtonText("Cancel").onClick(() => {
+        this.resolve(null);
+      }),
+    );
+    buttons.addButton((btn) =>
+      btn
+        .setButtonText("Run")
+        .setCta()
+        .onClick(() => {
+          this.resolve(this.values);
+        }),
+    );
+
+    this.scope.register([], "Enter", (event) => {
+      if (event.isComposing) return;
+      event.preventDefault();
+      this.resolve(this.values);
+    });
+
+    this.cleanupAccessibility = applyModalAccessibility(this);
+  }
+
+  onClose(): void {
+    if (!this.resolved) {
+      this.resolver(null);
+    }
+    if (this.cleanupAccessibility) {
+      this.cleanupAccessibility();
+      this.cleanupAccessibility = null;
+    }
+    this.contentEl.empty();
+  }
+
+  private resolve(result: Record<string, unknown> | null): void {
+    if (this.resolved) return;
+    this.resolved = true;
+    this.close();
+    this.resolver(result);
+  }
+}
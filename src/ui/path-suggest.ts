@@ -0,0 +1,45 @@
+import { AbstractInputSuggest, App, TFile, TFolder } from "obsidian";
+
+export type PathSuggestKind = "file" | "folder";
+
+export class PathSuggest extends AbstractInputSuggest<string> {
+  private readonly kind: PathSuggestKind;
+  private readonly inputEl: HTMLInputElement;
+
+  constructor(app: App, inputEl: HTMLInputElement, kind: PathSuggestKind) {
+    super(app, inputEl);
+    this.inputEl = inputEl;
+    this.kind = kind;
+  }
+
+  protected getSuggestions(query: string): string[] {
+    const needle = query.trim().toLowerCase();
+    return this.listPaths()
+      .filter((path) => path.toLowerCase().includes(needle))
+      .sort((a, b) => a.localeCompare(b));
+  }
+
+  renderSuggestion(path: string, el: HTMLElement): void {
+    el.setText(path);
+  }
+
+  selectSuggestion(path: string): void {
+    this.setValue(path);
+    this.inputEl.dispatchEvent(new Event("input"));
+    this.close();
+  }
+
+  private listPaths(): string[] {
+    const { vault } = this.app;
+    if (this.kind === "folder") {
+      return vault
+        .getAllLoadedFiles()
+        .filter((file): file is TFolder => file instanceof TFolder)
+        .map((folder) => folder.path);
+    }
+    return vault
+      .getAllLoadedFiles()
+      .filter((file): file is TFile => file instanceof TFile)
+      .map((file) => file.path);
+  }
+}
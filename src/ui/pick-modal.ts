@@ -0,0 +1,59 @@
+import { App, FuzzySuggestModal } from "obsidian";
+
+/** Let the user fuzzy-pick one item; resolves to `null` when the list is dismissed. */
+export function pickItem<T>(
+  app: App,
+  items: T[],
+  getText: (item: T) => string,
+  placeholder?: string,
+): Promise<T | null> {
+  return new Promise((resolve) => {
+    new PickModal(app, items, getText, placeholder, resolve).open();
+  });
+}
+
+class PickModal<T> extends FuzzySuggestModal<T> {
+  private readonly items: T[];
+  private readonly getText: (item: T) => string;
+  private readonly resolver: (value: T | null) => void;
+  private resolved = false;
+
+  constructor(
+    app: App,
+    items: T[],
+    getText: (item: T) => string,
+    placeholder: string | undefined,
+    resolver: (value: T | null) => void,
+  ) {
+    super(app);
+    this.items = items;
+    this.getText = getText;
+    this.resolver = resolver;
+    if (placeholder) this.setPlaceholder(placeholder);
+  }
+
+  getItems(): T[] {
+    return this.items;
+  }
+
+  getItemText(item: T): string {
+    return this.getText(item);
+  }
+
+  onChooseItem(item: T): void {
+    this.resolve(item);
+  }
+
+  onClose(): void {
+    super.onClose();
+    // Obsidian closes the modal before reporting the chosen item, so wait a tick before
+    // treating the close as a dismissal.
+    window.setTimeout(() => this.resolve(null), 0);
+  }
+
+  private resolve(result: T | null): void {
+    if (this.resolved) return;
+    this.resolved = true;
+    this.resolver(result);
+  }
+}
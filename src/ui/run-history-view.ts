@@ -0,0 +1,158 @@
+import { ItemView, Notice, TFile, WorkspaceLeaf, setIcon } from "obsidian";
+import { formatDuration } from "../duration";
+import type ScrippetPlugin from "../main";
+import type { ScrippetRunOutcome, ScrippetRunRecord } from "../types";
+
+export const RUN_HISTORY_VIEW_TYPE = "scrippets-run-history";
+
+const OUTCOME_LABELS: Record<ScrippetRunOutcome, string> = {
+  success: "Succeeded",
+  error: "Failed",
+  cancelled: "Cancelled",
+  timeout: "Timed out",
+};
+
+const OUTCOME_ICONS: Record<ScrippetRunOutcome, string> = {
+  success: "check-circle",
+  error: "x-circle",
+  cancelled: "slash",
+  timeout: "timer-off",
+};
+
+export class RunHistoryView extends ItemView {
+  private readonly plugin: ScrippetPlugin;
+  private scrippetFilter = "";
+  private outcomeFilter: ScrippetRunOutcome | "" = "";
+  private listEl: HTMLElement | null = null;
+
+  constructor(leaf: WorkspaceLeaf, plugin: ScrippetPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return RUN_HISTORY_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return "Scrippet runs";
+  }
+
+  getIcon(): string {
+    return "history";
+  }
+
+  onOpen(): Promise<void> {
+    this.register(this.plugin.manager.history.subscribe(() => this.render()));
+    this.render();
+    return Promise.resolve();
+  }
+
+  private render(): void {
+    const container = this.contentEl;
+    container.empty();
+    container.addClass("scrippet-history");
+    this.renderControls(container);
+    this.listEl = container.createDiv({ cls: "scrippet-history-list" });
+    this.renderEntries();
+  }
+
+  private renderControls(container: HTMLElement): void {
+    const controls = container.createDiv({ cls: "scrippet-controls" });
+    const entries = this.plugin.manager.history.entries;
+
+    const scrippetSelect = controls.createEl("select", { attr: { "aria-label": "Filter by scrippet" } });
+    scrippetSelect.createEl("option", { text: "All scrippets", value: "" });
+    const names = new Map<string, string>();
+    for (const entry of entries) names.set(entry.scrippetId, entry.name);
+    for (const [id, name] of Array.from(names.entries()).sort((a, b) => a[1].localeCompare(b[1]))) {
+      scrippetSelect.createEl("option", { text: name, value: id });
+    }
+    scrippetSelect.value = names.has(this.scrippetFilter) ? this.scrippetFilter : "";
+    scrippetSelect.addEventListener("change", () => {
+      this.scrippetFilter = scrippetSelect.value;
+      this.renderEntries();
+    });
+
+    const outcomeSelect = controls.createEl("select", { attr: { "aria-label": "Filter by outcome" } });
+    outcomeSelect.createEl("option", { text: "All outcomes", value: "" });
+    for (const outcome of Object.keys(OUTCOME_LABELS) as ScrippetRunOutcome[]) {
+      outcomeSelect.createEl("option", { text: OUTCOME_LABELS[outcome], value: outcome });
+    }
+    outcomeSelect.value = this.outcomeFilter;
+    outcomeSelect.addEventListener("change", () => {
+      this.outcomeFilter = outcomeSelect.value as ScrippetRunOutcome | "";
+      this.renderEntries();
+    });
+
+    const clearButton = controls.createEl("button", { text: "Clear", type: "button" });
+    clearButton.addEventListener("click", () => {
+      void this.plugin.manager.history.clear();
+    });
+  }
+
+  private renderEntries(): void {
+    if (!this.listEl) return;
+    this.listEl.empty();
+    const entries = this.plugin.manager.history.entries
+      .filter((entry) => !this.scrippetFilter || entry.scrippetId === this.scrippetFilter)
+      .filter((entry) => !this.outcomeFilter || entry.outcome === this.outcomeFilter)
+      .slice()
+      .reverse();
+    if (entries.length === 0) {
+      this.listEl.createEl("p", { text: "No runs recorded." });
+      return;
+    }
+    for (const entry of entries) {
+      this.renderEntry(this.listEl, entry);
+    }
+  }
+
+  private renderEntry(container: HTMLElement, entry: ScrippetRunRecord): void {
+    const item = container.createDiv({ cls: `scrippet-history-entry is-${entry.outcome}` });
+    const header = item.createDiv({ cls: "scrippet-history-header" });
+    const icon = header.createSpan({ cls: "scrippet-history-icon" });
+    setIcon(icon, OUTCOME_ICONS[entry.outcome]);
+    icon.setAttr("aria-label", OUTCOME_LABELS[entry.outcome]);
+    header.createSpan({ cls: "scrippet-history-name", text: entry.name });
+    header.createSpan({
+      cls: "scrippet-history-meta",
+      text: `${new Date(entry.startedAt).toLocaleString()} — ${entry.trigger} — ${formatDuration(entry.duration)}`,
+    });
+
+    if (entry.error) {
+      item.createDiv({ cls: "scrippet-history-error", text: entry.error });
+    }
+
+    const links = item.createDiv({ cls: "scrippet-history-links" });
+    const location = entry.line != null ? `${entry.path}:${entry.line}` : entry.path;
+    const link = links.createEl("a", { cls: "scrippet-history-link", text: location, href: "#" });
+    link.addEventListener("click", (event) => {
+      event.preventDefault();
+      void this.openEntry(entry);
+    });
+    if (this.plugin.manager.hasOutput(entry.scrippetId, entry.runId)) {
+      const outputLink = links.createEl("a", { cls: "scrippet-history-link", text: "Output", href: "#" });
+      outputLink.addEventListener("click", (event) => {
+        event.preventDefault();
+        this.plugin.manager.showOutput(entry.scrippetId, entry.runId);
+      });
+    }
+
+    if (entry.stack) {
+      const details = item.createEl("details");
+      details.createEl("summary", { text: "Stack trace" });
+      details.createEl("pre", { cls: "scrippet-snippet", text: entry.stack });
+    }
+  }
+
+  private async openEntry(entry: ScrippetRunRecord): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(entry.path);
+    if (!(file instanceof TFile)) {
+      new Notice("Scrippet file not found.");
+      return;
+    }
+    const line = entry.line != null ? entry.line - 1 : 0;
+    await this.app.workspace.getLeaf(true).openFile(file, { eState: { line } });
+  }
+}
@@ -0,0 +1,75 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { formatConsoleEntry, type ConsoleEntry } from "../run-output";
+import { applyModalAccessibility } from "./accessibility";
+
+export class RunOutputModal extends Modal {
+  private readonly heading: string;
+  private readonly entries: ConsoleEntry[];
+  private cleanupAccessibility: (() => void) | null = null;
+
+  constructor(app: App, heading: string, entries: ConsoleEntry[]) {
+    super(app);
+    this.heading = heading;
+    this.entries = entries;
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("scrippet-output-modal");
+    this.titleEl.setText(this.heading);
+
+    const outputId = `scrippet-output-${Date.now()}`;
+    const wrapper = this.contentEl.createDiv({ cls: "scrippet-snippet-wrapper" });
+    const output = wrapper.createDiv({ cls: "scrippet-output", attr: { id: outputId } });
+    if (this.entries.length === 0) {
+      output.createEl("p", { text: "No console output captured." });
+    }
+    for (const entry of this.entries) {
+      const line = output.createDiv({ cls: `scrippet-output-line is-${entry.level}` });
+      line.createSpan({
+        cls: "scrippet-output-time",
+        text: new Date(entry.timestamp).toLocaleTimeString(),
+      });
+      line.createSpan({ cls: "scrippet-output-level", text: entry.level.toUpperCase() });
+      line.createSpan({ cls: "scrippet-output-message", text: entry.message });
+    }
+
+    const buttons = new Setting(this.contentEl);
+    buttons.addButton((btn) =>
+      btn
+        .setButtonText("Copy")
+        .setDisabled(this.entries.length === 0)
+        .onClick(() => {
+          void this.copyOutput();
+        }),
+    );
+    buttons.addButton((btn) =>
+      btn
+        .setButtonText("Close")
+        .setCta()
+        .onClick(() => {
+          this.close();
+        }),
+    );
+
+    this.cleanupAccessibility = applyModalAccessibility(this, { describedBy: outputId });
+  }
+
+  onClose(): void {
+    if (this.cleanupAccessibility) {
+      this.cleanupAccessibility();
+      this.cleanupAccessibility = null;
+    }
+    this.contentEl.empty();
+  }
+
+  private async copyOutput(): Promise<void> {
+    try {
+      if (!navigator.clipboard) throw new Error("Clipboard API unavailable");
+      await navigator.clipboard.writeText(this.entries.map((entry) => formatConsoleEntry(entry)).join("\n"));
+      new Notice("Output copied.");
+    } catch (error) {
+      console.error("Scrippets: clipboard write failed", error);
+      new Notice("Failed to copy output.");
+    }
+  }
+}
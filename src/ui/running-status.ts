@@ -0,0 +1,55 @@
+import { Notice, Platform, setIcon } from "obsidian";
+import type ScrippetPlugin from "../main";
+
+/**
+ * Indicator listing running scrippets with a cancel button. It lives in the status bar, or in a
+ * notice on mobile, where there is no status bar.
+ */
+export class RunningStatusIndicator {
+  private readonly plugin: ScrippetPlugin;
+  private readonly statusEl: HTMLElement | null;
+  private notice: Notice | null = null;
+
+  constructor(plugin: ScrippetPlugin) {
+    this.plugin = plugin;
+    this.statusEl = Platform.isMobile ? null : plugin.addStatusBarItem();
+    plugin.register(plugin.manager.subscribeRuns(() => this.render()));
+    plugin.register(() => this.notice?.hide());
+    this.render();
+  }
+
+  private render(): void {
+    const runs = this.plugin.manager.runningRuns;
+    const el = this.statusEl ?? this.getNoticeEl(runs.length > 0);
+    if (!el) return;
+    el.empty();
+    el.toggle(runs.length > 0);
+    if (runs.length === 0) return;
+
+    el.addClass("scrippet-running-status");
+    const icon = el.createSpan({ cls: "scrippet-running-icon" });
+    setIcon(icon, "loader");
+    el.createSpan({
+      text: runs.length === 1 ? `Running ${runs[0].descriptor.name}` : `${runs.length} scrippets running`,
+    });
+
+    const cancel = el.createEl("button", { cls: "scrippet-running-cancel", type: "button" });
+    cancel.setAttr("aria-label", "Cancel running scrippet");
+    setIcon(cancel, "x");
+    cancel.addEventListener("click", () => {
+      this.plugin.cancelRunningScrippet();
+    });
+  }
+
+  /** The notice's message element, opening the notice while runs are in flight and hiding it after. */
+  private getNoticeEl(running: boolean): HTMLElement | null {
+    if (!running) {
+      this.notice?.hide();
+      this.notice = null;
+      return null;
+    }
+    // Tapping a notice dismisses it; it is shown again when the running scrippets change.
+    if (!this.notice?.messageEl.isConnected) this.notice = new Notice("", 0);
+    return this.notice.messageEl;
+  }
+}
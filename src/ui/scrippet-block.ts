@@ -0,0 +1,79 @@
+import { Notice, parseYaml } from "obsidian";
+import type { ScrippetManager } from "../scrippet-manager";
+
+export const SCRIPPET_BLOCK_LANGUAGE = "scrippet";
+
+const CODE_SEPARATOR = /^---\s*$/;
+
+interface ScrippetBlock {
+  run?: string;
+  label?: string;
+  args: Record<string, unknown>;
+  /** JavaScript after the `---` line, run instead of a scrippet file. */
+  code?: string;
+}
+
+/**
+ * Render a `scrippet` code block as a button: YAML options (`run`, `label`, `args`), optionally
+ * followed by a `---` line and inline JavaScript that the button runs instead.
+ */
+export function renderScrippetBlock(
+  manager: ScrippetManager,
+  source: string,
+  el: HTMLElement,
+  sourcePath: string,
+): void {
+  el.addClass("scrippet-block");
+  let block: ScrippetBlock;
+  try {
+    block = parseScrippetBlock(source);
+  } catch (error) {
+    el.createDiv({ cls: "scrippet-block-error", text: `Scrippet block: ${(error as Error).message}` });
+    return;
+  }
+
+  const { run, code, args } = block;
+  const label = block.label ?? (run ? (manager.getDescriptor(run)?.name ?? run) : "Run");
+  const button = el.createEl("button", { text: label, cls: "mod-cta" });
+  button.addEventListener("click", () => {
+    if (code != null) {
+      void manager.runInline(sourcePath, code, { name: label, args });
+      return;
+    }
+    if (!run) return;
+    if (!manager.getDescriptor(run)) {
+      new Notice(`No scrippet with id "${run}".`);
+      return;
+    }
+    void manager.executeById(run, { trigger: "codeblock", args });
+  });
+}
+
+function parseScrippetBlock(source: string): ScrippetBlock {
+  const lines = source.split("\n");
+  const separator = lines.findIndex((line) => CODE_SEPARATOR.test(line));
+  const header = separator >= 0 ? lines.slice(0, separator).join("\n") : source;
+  const code = separator >= 0 ? lines.slice(separator + 1).join("\n") : undefined;
+
+  const options: unknown = header.trim() ? parseYaml(header) : {};
+  if (options == null || typeof options !== "object" || Array.isArray(options)) {
+    throw new Error("expected `key: value` options");
+  }
+  const { run, label, args } = options as Record<string, unknown>;
+  if (args != null && (typeof args !== "object" || Array.isArray(args))) {
+    throw new Error("`args` must be a map, for example {week: 42}");
+  }
+  const block: ScrippetBlock = {
+    run: toText(run)?.trim(),
+    label: toText(label),
+    args: (args as Record<string, unknown> | undefined) ?? {},
+    code: code?.trim() ? code : undefined,
+  };
+  if (block.run && block.code) throw new Error("use either `run` or inline code, not both");
+  if (!block.run && !block.code) throw new Error("add `run: <scrippet id>` or inline code after a `---` line");
+  return block;
+}
+
+function toText(value: unknown): string | undefined {
+  return typeof value === "string" || typeof value === "number" ? String(value) : undefined;
+}
@@ -1,7 +1,17 @@
 import { App, Notice, PluginSettingTab, Setting, TFile, normalizePath, setIcon } from "obsidian";
+import { formatDuration } from "../duration";
+import { describeEventTrigger } from "../event-triggers";
+import { findHotkeyClashes, formatHotkey } from "../hotkeys";
 import type ScrippetPlugin from "../main";
-import type { ScrippetDescriptor, ScrippetDuplicate, ScrippetSortField } from "../types";
+import { buildRunUri } from "../uri";
+import type {
+  ScrippetConcurrency,
+  ScrippetDescriptor,
+  ScrippetDuplicate,
+  ScrippetSortField,
+} from "../types";
 import { AddScrippetModal } from "./add-scrippet-modal";
+import { addFieldControl } from "./field-controls";
 import { StartupWarningModal } from "./startup-warning-modal";
 
 const SORT_LABELS: Record<ScrippetSortField, string> = {
@@ -10,12 +20,14 @@ const SORT_LABELS: Record<ScrippetSortField, string> = {
   enabled: "Enabled",
 };
 
-const EXTENSION_OPTIONS = [".js", ".mjs", ".cjs"] as const;
+const EXTENSION_OPTIONS = [".js", ".mjs", ".cjs", ".ts"] as const;
 
 export class ScrippetSettingTab extends PluginSettingTab {
   private readonly plugin: ScrippetPlugin;
   private filterQuery = "";
   private listContainer: HTMLElement | null = null;
+  /** Scrippet ids whose settings block is expanded, kept across re-renders. */
+  private expandedSettings = new Set<string>();
 
   constructor(app: App, plugin: ScrippetPlugin) {
     super(app, plugin);
@@ -36,6 +48,8 @@ export class ScrippetSettingTab extends PluginSettingTab {
     this.renderExtensionControls(containerEl);
     this.renderStartupToggle(containerEl);
     this.renderConfirmToggle(containerEl);
+    this.renderConcurrencyDefault(containerEl);
+    this.renderHistoryLimit(containerEl);
     this.renderManageControls(containerEl);
     this.renderMessages(containerEl);
     this.renderListControls(containerEl);
@@ -173,6 +187,41 @@ export class ScrippetSettingTab extends PluginSettingTab {
       );
   }
 
+  private renderConcurrencyDefault(container: HTMLElement): void {
+    new Setting(container)
+      .setName("Overlapping runs")
+      .setDesc("What happens when a scrippet is triggered while it is still running. Override per scrippet with @concurrency.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            parallel: "Run in parallel",
+            queue: "Queue after the current run",
+            single: "Ignore while running",
+          })
+          .setValue(this.plugin.settings.defaultConcurrency)
+          .onChange(async (value) => {
+            this.plugin.settings.defaultConcurrency = value as ScrippetConcurrency;
+            await this.plugin.saveSettings();
+          }),
+      );
+  }
+
+  private renderHistoryLimit(container: HTMLElement): void {
+    new Setting(container)
+      .setName("Run history size")
+      .setDesc("Number of recent runs kept in the run history.")
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.setValue(String(this.plugin.settings.historyLimit)).onChange(async (value) => {
+          const limit = Number.parseInt(value, 10);
+          if (!Number.isFinite(limit) || limit < 1) return;
+          this.plugin.settings.historyLimit = limit;
+          this.plugin.settings.runHistory = this.plugin.settings.runHistory.slice(-limit);
+          await this.plugin.saveSettings();
+        });
+      });
+  }
+
   private renderManageControls(container: HTMLElement): void {
     const manage = new Setting(container)
       .setName("Manage scrippets")
@@ -185,6 +234,24 @@ export class ScrippetSettingTab extends PluginSettingTab {
       }),
     );
 
+    manage.addExtraButton((btn) =>
+      btn
+        .setIcon("history")
+        .setTooltip("Open run history")
+        .onClick(() => {
+          void this.plugin.openRunHistory();
+        }),
+    );
+
+    manage.addExtraButton((btn) =>
+      btn
+        .setIcon("file-type")
+        .setTooltip("Generate type definitions for external editors")
+        .onClick(() => {
+          void this.plugin.generateTypeDefinitions();
+        }),
+    );
+
     manage.addExtraButton((btn) =>
       btn
         .setIcon("plus")
@@ -317,6 +384,8 @@ export class ScrippetSettingTab extends PluginSettingTab {
     const setting = new Setting(container)
       .setName(script.name)
       .setDesc(this.buildDescription(script));
+    addNameIcon(setting, script);
+    if (!startup && !script.subcommands) this.renderHotkeyClashes(setting, script);
 
     setting.addToggle((toggle) =>
       toggle.setValue(script.enabled).onChange(async (value) => {
@@ -342,7 +411,30 @@ export class ScrippetSettingTab extends PluginSettingTab {
         }),
     );
 
-    if (!startup) {
+    setting.addExtraButton((btn) =>
+      btn
+        .setIcon("terminal-square")
+        .setTooltip("Show output")
+        .onClick(() => {
+          this.plugin.manager.showOutput(script.id);
+        }),
+    );
+
+    if (this.plugin.manager.storage.size(script.id) > 0) {
+      setting.addExtraButton((btn) =>
+        btn
+          .setIcon("eraser")
+          .setTooltip("Clear storage")
+          .onClick(async () => {
+            await this.plugin.manager.storage.clear(script.id);
+            new Notice(`Cleared storage for "${script.name}".`);
+            this.display();
+          }),
+      );
+    }
+
+    if (!startup && !script.subcommands) {
+      this.addCopyLinkButton(setting, script);
       setting.addExtraButton((btn) =>
         btn
           .setIcon("key")
@@ -359,10 +451,101 @@ export class ScrippetSettingTab extends PluginSettingTab {
           .setDisabled(!script.enabled)
           .onClick(async () => {
             if (!script.enabled) return;
-            await this.plugin.manager.executeById(script.id);
+            await this.plugin.manager.executeById(script.id, { trigger: "settings" });
           }),
       );
     }
+
+    this.renderScrippetSettings(container, script);
+    for (const subcommand of script.subcommands ?? []) {
+      this.renderSubcommand(container, subcommand, script);
+    }
+  }
+
+  /** A command from the file's `commands` map, nested under the file's row. */
+  private renderSubcommand(container: HTMLElement, command: ScrippetDescriptor, file: ScrippetDescriptor): void {
+    const parts = [`ID: ${command.id}`];
+    if (command.metadata.hotkeys) parts.push(`Hotkeys: ${command.metadata.hotkeys.map(formatHotkey).join(", ")}`);
+    const setting = new Setting(container).setName(command.name).setDesc(parts.join(" \u2014 "));
+    setting.settingEl.addClass("scrippet-subcommand");
+    addNameIcon(setting, command);
+    this.renderHotkeyClashes(setting, command);
+    this.addCopyLinkButton(setting, command);
+
+    setting.addToggle((toggle) =>
+      toggle
+        .setValue(command.enabled)
+        .setDisabled(!file.enabled)
+        .onChange(async (value) => {
+          await this.plugin.manager.toggleDescriptor(command, value);
+        }),
+    );
+
+    setting.addExtraButton((btn) =>
+      btn
+        .setIcon("key")
+        .setTooltip("Assign hotkey")
+        .onClick(() => {
+          this.openHotkeySettings(command);
+        }),
+    );
+
+    const runnable = file.enabled && command.enabled;
+    setting.addExtraButton((btn) =>
+      btn
+        .setIcon("play")
+        .setTooltip("Run now")
+        .setDisabled(!runnable)
+        .onClick(async () => {
+          if (!runnable) return;
+          await this.plugin.manager.executeById(command.id, { trigger: "settings" });
+        }),
+    );
+  }
+
+  private addCopyLinkButton(setting: Setting, script: ScrippetDescriptor): void {
+    setting.addExtraButton((btn) =>
+      btn
+        .setIcon("link")
+        .setTooltip("Copy run link")
+        .onClick(() => {
+          const uri = buildRunUri(this.app.vault.getName(), script.id);
+          void this.copyToClipboard(uri, "Run link copied.", "Failed to copy run link.");
+        }),
+    );
+  }
+
+  /** Warn when a declared `@hotkey` is already bound to another command. */
+  private renderHotkeyClashes(setting: Setting, script: ScrippetDescriptor): void {
+    const commandId = `${this.plugin.manifest.id}:${this.plugin.manager.getCommandId(script.id)}`;
+    for (const clash of findHotkeyClashes(this.app, commandId, script.metadata.hotkeys ?? [])) {
+      setting.descEl.createDiv({
+        cls: "scrippet-hotkey-clash",
+        text: `${formatHotkey(clash.hotkey)} is also bound to "${clash.commandName}".`,
+      });
+    }
+  }
+
+  private renderScrippetSettings(container: HTMLElement, script: ScrippetDescriptor): void {
+    const fields = script.metadata.settings ?? [];
+    if (fields.length === 0) return;
+
+    const block = container.createEl("details", { cls: "scrippet-settings-block" });
+    block.open = this.expandedSettings.has(script.id);
+    block.addEventListener("toggle", () => {
+      if (block.open) this.expandedSettings.add(script.id);
+      else this.expandedSettings.delete(script.id);
+    });
+    block.createEl("summary", { text: `${script.name} settings` });
+
+    const values = this.plugin.manager.getScrippetSettings(script);
+    for (const field of fields) {
+      const setting = new Setting(block).setName(field.label ?? field.name);
+      if (field.description) setting.setDesc(field.description);
+      addFieldControl(setting, this.app, field, values[field.name], (value) => {
+        void this.plugin.manager.updateScrippetSetting(script, field.name, value);
+      });
+    }
   }
 
   private prepareDescriptors(descriptors: ScrippetDescriptor[]): ScrippetDescriptor[] {
@@ -397,7 +580,8 @@ export class ScrippetSettingTab extends PluginSettingTab {
       descriptor.name.toLowerCase().includes(query) ||
       descriptor.id.toLowerCase().includes(query) ||
       normalizePath(descriptor.path).toLowerCase().includes(query) ||
-      (descriptor.description?.toLowerCase().includes(query) ?? false)
+      (descriptor.description?.toLowerCase().includes(query) ?? false) ||
+      (descriptor.subcommands?.some((command) => this.matchesFilter(command)) ?? false)
     );
   }
 
@@ -405,6 +589,32 @@ export class ScrippetSettingTab extends PluginSettingTab {
     const parts = [] as string[];
     if (script.description) parts.push(script.description);
     parts.push(`ID: ${script.id}`);
+    if (script.subcommands) parts.push(`Commands: ${script.subcommands.length}`);
+    if (script.metadata.editor) parts.push("Editor command");
+    if (script.metadata.ribbon) parts.push("Ribbon button");
+    if (script.metadata.uri === "allow") parts.push("Links run without confirmation");
+    if (script.metadata.menu) {
+      const extensions = script.metadata.menuExtensions ? ` (${script.metadata.menuExtensions.join(", ")})` : "";
+      parts.push(`Menu: ${script.metadata.menu.join(", ")}${extensions}`);
+    }
+    if (script.metadata.hotkeys) parts.push(`Hotkeys: ${script.metadata.hotkeys.map(formatHotkey).join(", ")}`);
+    if (script.metadata.when?.length) {
+      parts.push(`When: ${script.metadata.when.map((conditions) => conditions.join(", ")).join(" | ")}`);
+    }
+    if (script.metadata.on?.length) {
+      parts.push(`On: ${script.metadata.on.map((trigger) => describeEventTrigger(trigger)).join(", ")}`);
+    }
+    if (script.metadata.timeout != null) parts.push(`Timeout: ${formatDuration(script.metadata.timeout)}`);
+    if (script.metadata.concurrency) parts.push(`Concurrency: ${script.metadata.concurrency}`);
+    if (script.metadata.output) parts.push(`Output: ${script.metadata.output}`);
+    if (script.metadata.schedule) {
+      const { next, last } = this.plugin.manager.getScheduleTimes(script.id);
+      parts.push(`Schedule: ${script.metadata.schedule}`);
+      parts.push(`Next run: ${next != null && script.enabled ? this.formatModified(next) : "not scheduled"}`);
+      parts.push(`Last run: ${last != null ? this.formatModified(last) : "never"}`);
+    }
+    const stored = this.plugin.manager.storage.size(script.id);
+    if (stored > 0) parts.push(`Storage: ${formatBytes(stored)}`);
     parts.push(`File: ${normalizePath(script.path)}`);
     parts.push(`Modified: ${this.formatModified(script.modified)}`);
     return parts.join(" \u2014 ");
@@ -530,3 +740,17 @@ export class ScrippetSettingTab extends PluginSettingTab {
     await this.plugin.saveSettings();
   }
 }
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Show a scrippet's `@icon` in front of its name. */
+function addNameIcon(setting: Setting, script: ScrippetDescriptor): void {
+  if (!script.metadata.icon) return;
+  const icon = createSpan({ cls: "scrippet-name-icon" });
+  setIcon(icon, script.metadata.icon);
+  setting.nameEl.prepend(icon);
+}
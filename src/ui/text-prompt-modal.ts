@@ -0,0 +1,87 @@
+import { App, Modal, Setting } from "obsidian";
+import { applyModalAccessibility } from "./accessibility";
+
+export interface TextPromptOptions {
+  placeholder?: string;
+  /** Initial value of the input. */
+  value?: string;
+}
+
+/** Ask for a line of text; resolves to `null` when the prompt is dismissed. */
+export function promptForText(app: App, message: string, options: TextPromptOptions = {}): Promise<string | null> {
+  return new Promise((resolve) => {
+    new TextPromptModal(app, message, options, resolve).open();
+  });
+}
+
+class TextPromptModal extends Modal {
+  private readonly message: string;
+  private readonly options: TextPromptOptions;
+  private readonly resolver: (value: string | null) => void;
+  private value: string;
+  private resolved = false;
+  private cleanupAccessibility: (() => void) | null = null;
+
+  constructor(app: App, message: string, options: TextPromptOptions, resolver: (value: string | null) => void) {
+    super(app);
+    this.message = message;
+    this.options = options;
+    this.resolver = resolver;
+    this.value = options.value ?? "";
+  }
+
+  onOpen(): void {
+    this.modalEl.addClass("scrippet-prompt-modal");
+    this.titleEl.setText(this.message);
+
+    new Setting(this.contentEl).addText((text) => {
+      text.setPlaceholder(this.options.placeholder ?? "").setValue(this.value);
+      text.onChange((value) => {
+        this.value = value;
+      });
+      text.inputEl.addClass("scrippet-prompt-input");
+      window.setTimeout(() => text.inputEl.focus(), 0);
+    });
+
+    const buttons = new Setting(this.contentEl);
+    buttons.addButton((btn) =>
+      btn.setButtonText("Cancel").onClick(() => {
+        this.resolve(null);
+      }),
+    );
+    buttons.addButton((btn) =>
+      btn
+        .setButtonText("OK")
+        .setCta()
+        .onClick(() => {
+          this.resolve(this.value);
+        }),
+    );
+
+    this.scope.register([], "Enter", (event) => {
+      if (event.isComposing) return;
+      event.preventDefault();
+      this.resolve(this.value);
+    });
+
+    this.cleanupAccessibility = applyModalAccessibility(this);
+  }
+
+  onClose(): void {
+    if (!this.resolved) {
+      this.resolver(null);
+    }
+    if (this.cleanupAccessibility) {
+      this.cleanupAccessibility();
+      this.cleanupAccessibility = null;
+    }
+    this.contentEl.empty();
+  }
+
+  private resolve(result: string | null): void {
+    if (this.resolved) return;
+    this.resolved = true;
+    this.close();
+    this.resolver(result);
+  }
+}
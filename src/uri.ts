@@ -0,0 +1,40 @@
+import type { ObsidianProtocolData } from "obsidian";
+import type { ScrippetFieldDefinition } from "./types";
+
+/** `obsidian://scrippets?run=<id>&arg.<name>=<value>` */
+export const URI_ACTION = "scrippets";
+const ARGUMENT_PREFIX = "arg.";
+
+/**
+ * Collect `arg.<name>` query parameters as run arguments. Values arrive as strings and are
+ * converted for declared `number` and `boolean` params.
+ */
+export function parseUriArguments(
+  params: ObsidianProtocolData,
+  fields: ScrippetFieldDefinition[],
+): Record<string, unknown> {
+  const args: Record<string, unknown> = {};
+  for (const [key, raw] of Object.entries(params)) {
+    if (!key.startsWith(ARGUMENT_PREFIX) || key.length === ARGUMENT_PREFIX.length) continue;
+    const name = key.slice(ARGUMENT_PREFIX.length);
+    args[name] = convertArgument(raw, fields.find((field) => field.name === name));
+  }
+  return args;
+}
+
+export function buildRunUri(vault: string, id: string): string {
+  return `obsidian://${URI_ACTION}?vault=${encodeURIComponent(vault)}&run=${encodeURIComponent(id)}`;
+}
+
+function convertArgument(raw: string, field: ScrippetFieldDefinition | undefined): unknown {
+  if (field?.type === "number") {
+    const parsed = Number(raw);
+    return raw.trim() === "" || Number.isNaN(parsed) ? raw : parsed;
+  }
+  if (field?.type === "boolean") {
+    const normalized = raw.trim().toLowerCase();
+    if (["true", "yes", "on", "1", ""].includes(normalized)) return true;
+    if (["false", "no", "off", "0"].includes(normalized)) return false;
+  }
+  return raw;
+}